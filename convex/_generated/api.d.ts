@@ -13,10 +13,30 @@ import type {
   FilterApi,
   FunctionReference,
 } from "convex/server";
+import type * as ai from "../ai.js";
+import type * as analysis from "../analysis.js";
 import type * as auth from "../auth.js";
+import type * as clocks from "../clocks.js";
+import type * as crons from "../crons.js";
 import type * as games from "../games.js";
 import type * as http from "../http.js";
+import type * as lib_ai from "../lib/ai.js";
+import type * as lib_analysis from "../lib/analysis.js";
+import type * as lib_glicko2 from "../lib/glicko2.js";
+import type * as lib_openings from "../lib/openings.js";
+import type * as lib_ptn from "../lib/ptn.js";
+import type * as lib_puzzles from "../lib/puzzles.js";
+import type * as lib_tak from "../lib/tak.js";
+import type * as lib_threats from "../lib/threats.js";
+import type * as messages from "../messages.js";
+import type * as openings from "../openings.js";
+import type * as profiles from "../profiles.js";
+import type * as ptn from "../ptn.js";
+import type * as puzzles from "../puzzles.js";
+import type * as ratings from "../ratings.js";
+import type * as results from "../results.js";
 import type * as router from "../router.js";
+import type * as spectators from "../spectators.js";
 
 /**
  * A utility for referencing Convex functions in your app's API.
@@ -27,10 +47,30 @@ import type * as router from "../router.js";
  * ```
  */
 declare const fullApi: ApiFromModules<{
+  ai: typeof ai;
+  analysis: typeof analysis;
   auth: typeof auth;
+  clocks: typeof clocks;
+  crons: typeof crons;
   games: typeof games;
   http: typeof http;
+  "lib/ai": typeof lib_ai;
+  "lib/analysis": typeof lib_analysis;
+  "lib/glicko2": typeof lib_glicko2;
+  "lib/openings": typeof lib_openings;
+  "lib/ptn": typeof lib_ptn;
+  "lib/puzzles": typeof lib_puzzles;
+  "lib/tak": typeof lib_tak;
+  "lib/threats": typeof lib_threats;
+  messages: typeof messages;
+  openings: typeof openings;
+  profiles: typeof profiles;
+  ptn: typeof ptn;
+  puzzles: typeof puzzles;
+  ratings: typeof ratings;
+  results: typeof results;
   router: typeof router;
+  spectators: typeof spectators;
 }>;
 export declare const api: FilterApi<
   typeof fullApi,
@@ -0,0 +1,141 @@
+import {
+  internalAction,
+  internalQuery,
+  MutationCtx,
+} from "./_generated/server";
+import { v } from "convex/values";
+import { internal } from "./_generated/api";
+import { Id } from "./_generated/dataModel";
+import { BotLevel, chooseMove } from "./lib/ai";
+
+export const botLevelValidator = v.union(
+  v.literal("easy"),
+  v.literal("medium"),
+  v.literal("hard")
+);
+
+const BOT_NAMES: Record<BotLevel, string> = {
+  easy: "Tak Bot (Easy)",
+  medium: "Tak Bot (Medium)",
+  hard: "Tak Bot (Hard)",
+};
+
+const BOT_AVATAR_COLOR = "#14b8a6";
+
+// The user that plays as the computer at a strength, created on first use
+export async function getBotUserId(
+  ctx: MutationCtx,
+  level: BotLevel
+): Promise<Id<"users">> {
+  const bot = await ctx.db
+    .query("bots")
+    .withIndex("by_level", (q) => q.eq("level", level))
+    .unique();
+  if (bot) {
+    return bot.userId;
+  }
+
+  const userId = await ctx.db.insert("users", {
+    name: BOT_NAMES[level],
+    isAnonymous: true,
+  });
+  await ctx.db.insert("profiles", {
+    userId,
+    displayName: BOT_NAMES[level],
+    avatarColor: BOT_AVATAR_COLOR,
+  });
+  await ctx.db.insert("bots", { level, userId });
+  return userId;
+}
+
+// Let the computer think about its next move
+export async function scheduleBotMove(ctx: MutationCtx, gameId: Id<"games">) {
+  await ctx.scheduler.runAfter(0, internal.ai.playBotMove, { gameId });
+}
+
+// The position and strength the bot should move at, or null if it is not
+// the bot's turn
+export const getBotTurn = internalQuery({
+  args: { gameId: v.id("games") },
+  returns: v.union(
+    v.object({
+      level: botLevelValidator,
+      state: v.object({
+        boardSize: v.number(),
+        board: v.array(
+          v.array(
+            v.array(
+              v.object({
+                type: v.union(
+                  v.literal("flat"),
+                  v.literal("wall"),
+                  v.literal("capstone")
+                ),
+                player: v.union(v.literal("white"), v.literal("black")),
+              })
+            )
+          )
+        ),
+        currentPlayer: v.union(v.literal("white"), v.literal("black")),
+        moveCount: v.number(),
+        whitePieces: v.object({ flat: v.number(), capstone: v.number() }),
+        blackPieces: v.object({ flat: v.number(), capstone: v.number() }),
+        komi: v.optional(v.number()),
+        rules: v.optional(
+          v.object({
+            flats: v.optional(v.number()),
+            capstones: v.optional(v.number()),
+            noWalls: v.optional(v.boolean()),
+            dragon: v.optional(v.boolean()),
+            noSwap: v.optional(v.boolean()),
+          })
+        ),
+      }),
+    }),
+    v.null()
+  ),
+  handler: async (ctx, args) => {
+    const game = await ctx.db.get(args.gameId);
+    if (
+      !game ||
+      game.status !== "active" ||
+      game.bot?.color !== game.currentPlayer
+    ) {
+      return null;
+    }
+
+    return {
+      level: game.bot.level,
+      state: {
+        boardSize: game.boardSize,
+        board: game.board,
+        currentPlayer: game.currentPlayer,
+        moveCount: game.moveCount,
+        whitePieces: game.whitePieces,
+        blackPieces: game.blackPieces,
+        komi: game.komi,
+        rules: game.rules,
+      },
+    };
+  },
+});
+
+// Search for the bot's move and play it through the normal move path
+export const playBotMove = internalAction({
+  args: { gameId: v.id("games") },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const turn = await ctx.runQuery(internal.ai.getBotTurn, args);
+    if (!turn) {
+      return null;
+    }
+
+    const move = chooseMove(turn.state, turn.level);
+    await ctx.runMutation(internal.games.makeBotMove, {
+      gameId: args.gameId,
+      moveCount: turn.state.moveCount,
+      ...move,
+    });
+    return null;
+  },
+});
@@ -0,0 +1,204 @@
+import { query, mutation } from "./_generated/server";
+import { v } from "convex/values";
+import { getAuthUserId } from "@convex-dev/auth/server";
+import { RuleVariants, createInitialState } from "./lib/tak";
+import { replayNotation } from "./lib/ptn";
+import {
+  Annotation,
+  Variation,
+  isValidMarker,
+  lineMoves,
+  moveOwner,
+} from "./lib/analysis";
+
+const MAX_VARIATIONS = 200;
+const MAX_VARIATION_LENGTH = 200;
+const MAX_COMMENT_LENGTH = 1000;
+
+const variationValidator = v.object({
+  id: v.string(),
+  parentId: v.optional(v.string()),
+  branchPly: v.number(),
+  moves: v.array(v.string()),
+});
+
+const annotationValidator = v.object({
+  lineId: v.optional(v.string()),
+  ply: v.number(),
+  marker: v.optional(v.string()),
+  comment: v.optional(v.string()),
+});
+
+// Check that every variation is legal from where it branches, and that
+// every annotation points at a move that exists; throws if not
+function checkAnalysis(
+  mainLine: string[],
+  boardSize: number,
+  komi: number,
+  rules: RuleVariants | undefined,
+  variations: Variation[],
+  annotations: Annotation[]
+) {
+  if (variations.length > MAX_VARIATIONS) {
+    throw new Error(
+      `An analysis can have at most ${MAX_VARIATIONS} variations`
+    );
+  }
+
+  const initial = createInitialState(boardSize, komi, rules);
+  const seen = new Set<string>();
+  for (const variation of variations) {
+    if (seen.has(variation.id)) {
+      throw new Error(`Duplicate variation ${variation.id}`);
+    }
+    // Parents come first, which also rules out cycles
+    if (variation.parentId !== undefined && !seen.has(variation.parentId)) {
+      throw new Error(`Variation ${variation.id} has an unknown parent`);
+    }
+    if (
+      variation.moves.length === 0 ||
+      variation.moves.length > MAX_VARIATION_LENGTH
+    ) {
+      throw new Error(
+        `Variations must have between 1 and ${MAX_VARIATION_LENGTH} moves`
+      );
+    }
+
+    const parentMoves = lineMoves(mainLine, variations, variation.parentId);
+    if (
+      !Number.isInteger(variation.branchPly) ||
+      variation.branchPly < 0 ||
+      variation.branchPly > parentMoves.length
+    ) {
+      throw new Error(`Variation ${variation.id} branches off past its line`);
+    }
+    replayNotation(initial, lineMoves(mainLine, variations, variation.id));
+    seen.add(variation.id);
+  }
+
+  for (const annotation of annotations) {
+    if (annotation.lineId !== undefined && !seen.has(annotation.lineId)) {
+      throw new Error("Annotation on an unknown variation");
+    }
+    const moves = lineMoves(mainLine, variations, annotation.lineId);
+    if (
+      !Number.isInteger(annotation.ply) ||
+      annotation.ply < 1 ||
+      annotation.ply > moves.length ||
+      moveOwner(variations, annotation.lineId, annotation.ply) !==
+        annotation.lineId
+    ) {
+      throw new Error("Annotation on a move that is not in its line");
+    }
+    if (annotation.marker !== undefined && !isValidMarker(annotation.marker)) {
+      throw new Error(`Unknown move marker "${annotation.marker}"`);
+    }
+    if (
+      annotation.comment !== undefined &&
+      annotation.comment.length > MAX_COMMENT_LENGTH
+    ) {
+      throw new Error(
+        `Comments must be at most ${MAX_COMMENT_LENGTH} characters`
+      );
+    }
+  }
+}
+
+// The current user's analysis of a game, if they have saved one
+export const getAnalysis = query({
+  args: { gameId: v.id("games") },
+  returns: v.union(
+    v.object({
+      variations: v.array(variationValidator),
+      annotations: v.array(annotationValidator),
+      updatedAt: v.number(),
+    }),
+    v.null()
+  ),
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      return null;
+    }
+
+    const analysis = await ctx.db
+      .query("analyses")
+      .withIndex("by_user_and_game", (q) =>
+        q.eq("userId", userId).eq("gameId", args.gameId)
+      )
+      .unique();
+    if (!analysis) {
+      return null;
+    }
+
+    return {
+      variations: analysis.variations,
+      annotations: analysis.annotations,
+      updatedAt: analysis.updatedAt,
+    };
+  },
+});
+
+// Save the current user's variations and annotations for a game
+export const saveAnalysis = mutation({
+  args: {
+    gameId: v.id("games"),
+    variations: v.array(variationValidator),
+    annotations: v.array(annotationValidator),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      throw new Error("Not authenticated");
+    }
+
+    const game = await ctx.db.get(args.gameId);
+    if (!game) {
+      throw new Error("Game not found");
+    }
+    // No studying a game while it is still being played
+    if (game.status !== "finished" && game.status !== "analysis") {
+      throw new Error("Only finished games can be analyzed");
+    }
+
+    const moves = await ctx.db
+      .query("moves")
+      .withIndex("by_game", (q) => q.eq("gameId", args.gameId))
+      .order("asc")
+      .collect();
+    const annotations = args.annotations.filter(
+      (annotation) => annotation.marker || annotation.comment
+    );
+    checkAnalysis(
+      moves.map((move) => move.notation),
+      game.boardSize,
+      game.komi || 0,
+      game.rules,
+      args.variations,
+      annotations
+    );
+
+    const existing = await ctx.db
+      .query("analyses")
+      .withIndex("by_user_and_game", (q) =>
+        q.eq("userId", userId).eq("gameId", args.gameId)
+      )
+      .unique();
+    const analysis = {
+      variations: args.variations,
+      annotations,
+      updatedAt: Date.now(),
+    };
+    if (existing) {
+      await ctx.db.patch(existing._id, analysis);
+    } else {
+      await ctx.db.insert("analyses", {
+        userId,
+        gameId: args.gameId,
+        ...analysis,
+      });
+    }
+    return null;
+  },
+});
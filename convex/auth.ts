@@ -2,6 +2,7 @@ import { convexAuth, getAuthUserId } from "@convex-dev/auth/server";
 import { Password } from "@convex-dev/auth/providers/Password";
 import { Anonymous } from "@convex-dev/auth/providers/Anonymous";
 import { query } from "./_generated/server";
+import { getDisplayName } from "./profiles";
 
 export const { auth, signIn, signOut, store, isAuthenticated } = convexAuth({
   providers: [Password, Anonymous],
@@ -17,6 +18,6 @@ export const loggedInUser = query({
     if (!user) {
       return null;
     }
-    return user;
+    return { ...user, displayName: await getDisplayName(ctx, userId) };
   },
 });
@@ -0,0 +1,98 @@
+import { internalMutation, MutationCtx } from "./_generated/server";
+import { v } from "convex/values";
+import { internal } from "./_generated/api";
+import { Doc, Id } from "./_generated/dataModel";
+import { finishGame } from "./results";
+
+const DAY = 24 * 60 * 60 * 1000;
+
+type TimeControl = NonNullable<Doc<"games">["timeControl"]>;
+
+// Clock fields for both players at the start of a game
+export function initialClocks(timeControl: TimeControl) {
+  const time = timeControl.correspondenceDays
+    ? timeControl.correspondenceDays * DAY
+    : timeControl.initialTime;
+  return { whiteTimeRemaining: time, blackTimeRemaining: time };
+}
+
+// Time the side to move has left at `now`, or undefined for untimed games
+export function getRemainingTime(
+  game: Doc<"games">,
+  now: number
+): number | undefined {
+  if (!game.timeControl || game.lastMoveAt === undefined) return undefined;
+  const stored =
+    game.currentPlayer === "white"
+      ? game.whiteTimeRemaining
+      : game.blackTimeRemaining;
+  return (stored ?? 0) - (now - game.lastMoveAt);
+}
+
+// Stop the mover's clock and start the opponent's. Without `increment` the
+// mover is only charged for the time spent, as when a move is taken back.
+export function pressClock(
+  game: Doc<"games">,
+  now: number,
+  { increment = true }: { increment?: boolean } = {}
+) {
+  const timeControl = game.timeControl!;
+  if (timeControl.correspondenceDays) {
+    return {
+      ...initialClocks(timeControl),
+      lastMoveAt: now,
+    };
+  }
+
+  const remaining =
+    getRemainingTime(game, now)! + (increment ? timeControl.increment : 0);
+  return {
+    whiteTimeRemaining:
+      game.currentPlayer === "white" ? remaining : game.whiteTimeRemaining,
+    blackTimeRemaining:
+      game.currentPlayer === "black" ? remaining : game.blackTimeRemaining,
+    lastMoveAt: now,
+  };
+}
+
+// Check the clock again once the side to move could have run out
+export async function scheduleFlagCheck(
+  ctx: MutationCtx,
+  gameId: Id<"games">,
+  delay: number
+) {
+  await ctx.scheduler.runAfter(Math.max(delay, 0), internal.clocks.checkFlag, {
+    gameId,
+  });
+}
+
+// The side to move ran out of time and loses
+export async function flagGame(ctx: MutationCtx, game: Doc<"games">) {
+  await ctx.db.patch(
+    game._id,
+    game.currentPlayer === "white"
+      ? { whiteTimeRemaining: 0 }
+      : { blackTimeRemaining: 0 }
+  );
+  await finishGame(
+    ctx,
+    game,
+    game.currentPlayer === "white" ? "black" : "white",
+    "time"
+  );
+}
+
+// Scheduled after every move; stale checks find time left and do nothing
+export const checkFlag = internalMutation({
+  args: { gameId: v.id("games") },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const game = await ctx.db.get(args.gameId);
+    if (!game || game.status !== "active") return;
+
+    const remaining = getRemainingTime(game, Date.now());
+    if (remaining === undefined || remaining > 0) return;
+
+    await flagGame(ctx, game);
+  },
+});
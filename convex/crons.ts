@@ -0,0 +1,9 @@
+import { cronJobs } from "convex/server";
+import { internal } from "./_generated/api";
+
+const crons = cronJobs();
+
+// Turn newly finished games into puzzles
+crons.interval("mine puzzles", { hours: 1 }, internal.puzzles.minePuzzles, {});
+
+export default crons;
@@ -1,166 +1,127 @@
-import { query, mutation } from "./_generated/server";
+import {
+  query,
+  mutation,
+  internalMutation,
+  MutationCtx,
+} from "./_generated/server";
 import { v } from "convex/values";
 import { getAuthUserId } from "@convex-dev/auth/server";
+import { Doc, Id } from "./_generated/dataModel";
+import {
+  Move,
+  PieceType,
+  Player,
+  Position,
+  applyMove,
+  createEmptyBoard,
+  createInitialState,
+  getInitialPieces,
+  legalMoves,
+  moveToNotation,
+  placesOpponentPiece,
+  replayMoves,
+  result,
+  rulesError,
+} from "./lib/tak";
+import {
+  flagGame,
+  getRemainingTime,
+  initialClocks,
+  pressClock,
+  scheduleFlagCheck,
+} from "./clocks";
+import { finishGame } from "./results";
+import { getPlayerSummary, playerSummary } from "./profiles";
+import { botLevelValidator, getBotUserId, scheduleBotMove } from "./ai";
+
+// Turn makeMove's flat arguments into an engine move
+function toMove(args: {
+  type: "place" | "move";
+  position?: Position;
+  pieceType?: PieceType;
+  from?: Position;
+  to?: Position;
+  stackSize?: number;
+  dropPattern?: number[];
+}): Move {
+  if (args.type === "place") {
+    if (!args.position || !args.pieceType) {
+      throw new Error("Position and piece type required for place move");
+    }
+    return {
+      type: "place",
+      position: args.position,
+      pieceType: args.pieceType,
+    };
+  }
 
-// Types for the game
-type PieceType = "flat" | "wall" | "capstone";
-type Player = "white" | "black";
-type GameStatus = "waiting" | "active" | "finished";
-
-interface Piece {
-  type: PieceType;
-  player: Player;
-}
-
-type Board = Piece[][][]; // 3D array: [row][col][stack]
-
-// Get initial piece counts based on board size (Tak rules)
-function getInitialPieces(boardSize: number) {
-  const pieceCounts = {
-    3: { flat: 10, capstone: 0 },
-    4: { flat: 15, capstone: 0 },
-    5: { flat: 21, capstone: 1 },
-    6: { flat: 30, capstone: 1 },
-    7: { flat: 40, capstone: 2 },
-    8: { flat: 50, capstone: 2 },
+  if (!args.from || !args.to || !args.stackSize || !args.dropPattern) {
+    throw new Error("From, to, stack size, and drop pattern required for move");
+  }
+  return {
+    type: "move",
+    from: args.from,
+    to: args.to,
+    stackSize: args.stackSize,
+    dropPattern: args.dropPattern,
   };
-  return (
-    pieceCounts[boardSize as keyof typeof pieceCounts] || {
-      flat: 21,
-      capstone: 1,
-    }
-  );
 }
 
-// Create empty board
-function createEmptyBoard(size: number): Board {
-  return Array(size)
-    .fill(null)
-    .map(() =>
-      Array(size)
-        .fill(null)
-        .map(() => [])
-    );
+// Who created or imported a game; older games always seated their creator
+// as white
+function getCreator(game: Doc<"games">) {
+  return game.createdBy ?? game.importedBy ?? game.whitePlayer!;
 }
 
-// Check if position is valid
-function isValidPosition(row: number, col: number, size: number): boolean {
-  return row >= 0 && row < size && col >= 0 && col < size;
+// The colour whoever joins a waiting game will play
+function getJoinerColor(game: Doc<"games">) {
+  if (game.creatorColor === "random") return "random" as const;
+  return game.whitePlayer ? ("black" as const) : ("white" as const);
 }
 
-// Check for road win condition
-function checkRoad(board: Board, player: Player): boolean {
-  const size = board.length;
-  const visited = Array(size)
-    .fill(null)
-    .map(() => Array(size).fill(false));
-
-  // DFS to find connected components
-  function dfs(
-    row: number,
-    col: number,
-    component: { row: number; col: number }[]
-  ) {
-    if (
-      !isValidPosition(row, col, size) ||
-      visited[row][col] ||
-      board[row][col].length === 0
-    ) {
-      return;
-    }
-
-    const topPiece = board[row][col][board[row][col].length - 1];
-    if (!topPiece || topPiece.player !== player || topPiece.type === "wall") {
-      return;
-    }
-
-    visited[row][col] = true;
-    component.push({ row, col });
+const joinerColorValidator = v.union(
+  v.literal("white"),
+  v.literal("black"),
+  v.literal("random")
+);
+
+export const rulesValidator = v.object({
+  flats: v.optional(v.number()),
+  capstones: v.optional(v.number()),
+  noWalls: v.optional(v.boolean()),
+  dragon: v.optional(v.boolean()),
+  noSwap: v.optional(v.boolean()),
+});
 
-    // Check adjacent cells
-    const directions = [
-      [-1, 0],
-      [1, 0],
-      [0, -1],
-      [0, 1],
-    ];
-    for (const [dr, dc] of directions) {
-      dfs(row + dr, col + dc, component);
-    }
+// Load a game in the given state and the caller's colour in it
+async function getActivePlayer(
+  ctx: MutationCtx,
+  gameId: Id<"games">,
+  status: "active" | "finished" = "active"
+) {
+  const userId = await getAuthUserId(ctx);
+  if (!userId) {
+    throw new Error("Not authenticated");
   }
 
-  // Find all connected components
-  for (let row = 0; row < size; row++) {
-    for (let col = 0; col < size; col++) {
-      if (!visited[row][col] && board[row][col].length > 0) {
-        const topPiece = board[row][col][board[row][col].length - 1];
-        if (
-          topPiece &&
-          topPiece.player === player &&
-          topPiece.type !== "wall"
-        ) {
-          const component: { row: number; col: number }[] = [];
-          dfs(row, col, component);
-
-          // Check if this component forms a road
-          if (component.length > 0) {
-            const rows = component.map((p) => p.row);
-            const cols = component.map((p) => p.col);
-            const minRow = Math.min(...rows);
-            const maxRow = Math.max(...rows);
-            const minCol = Math.min(...cols);
-            const maxCol = Math.max(...cols);
-
-            // Check for horizontal road (spans full width)
-            if (minCol === 0 && maxCol === size - 1) {
-              return true;
-            }
-            // Check for vertical road (spans full height)
-            if (minRow === 0 && maxRow === size - 1) {
-              return true;
-            }
-          }
-        }
-      }
-    }
+  const game = await ctx.db.get(gameId);
+  if (!game) {
+    throw new Error("Game not found");
   }
 
-  return false;
-}
-
-// Count flat stones for flat win
-function countFlatStones(board: Board): { white: number; black: number } {
-  let white = 0;
-  let black = 0;
-
-  for (const row of board) {
-    for (const cell of row) {
-      if (cell.length > 0) {
-        const topPiece = cell[cell.length - 1];
-        if (topPiece.type === "flat") {
-          if (topPiece.player === "white") {
-            white++;
-          } else {
-            black++;
-          }
-        }
-      }
-    }
+  if (game.status !== status) {
+    throw new Error(`Game is not ${status}`);
   }
 
-  return { white, black };
-}
+  const isWhitePlayer = game.whitePlayer === userId;
+  const isBlackPlayer = game.blackPlayer === userId;
 
-// Check if board is full
-function isBoardFull(board: Board): boolean {
-  for (const row of board) {
-    for (const cell of row) {
-      if (cell.length === 0) {
-        return false;
-      }
-    }
+  if (!isWhitePlayer && !isBlackPlayer) {
+    throw new Error("You are not a player in this game");
   }
-  return true;
+
+  const playerColor: Player = isWhitePlayer ? "white" : "black";
+  return { game, playerColor };
 }
 
 // Create a new game
@@ -169,6 +130,19 @@ export const createGame = mutation({
     boardSize: v.number(),
     isRanked: v.optional(v.boolean()),
     komi: v.optional(v.number()),
+    rules: v.optional(rulesValidator),
+    timeControl: v.optional(
+      v.object({
+        initialTime: v.number(),
+        increment: v.number(),
+        correspondenceDays: v.optional(v.number()),
+      })
+    ),
+    allowTakebacks: v.optional(v.boolean()),
+    challengedUserId: v.optional(v.id("users")),
+    isPrivate: v.optional(v.boolean()),
+    creatorColor: v.optional(joinerColorValidator),
+    botLevel: v.optional(botLevelValidator), // Play against the computer
   },
   returns: v.id("games"),
   handler: async (ctx, args) => {
@@ -181,15 +155,69 @@ export const createGame = mutation({
       throw new Error("Board size must be between 3 and 8");
     }
 
-    const pieces = getInitialPieces(args.boardSize);
+    const { timeControl } = args;
+    if (timeControl) {
+      const perMove = timeControl.correspondenceDays;
+      if (perMove !== undefined ? perMove <= 0 : timeControl.initialTime <= 0) {
+        throw new Error("Time control must allow some time");
+      }
+      if (timeControl.increment < 0) {
+        throw new Error("Increment cannot be negative");
+      }
+    }
+
+    if (args.rules) {
+      const error = rulesError(args.rules);
+      if (error) {
+        throw new Error(error);
+      }
+    }
+
+    if (args.challengedUserId === userId) {
+      throw new Error("Cannot challenge yourself");
+    }
+    if (args.challengedUserId && !(await ctx.db.get(args.challengedUserId))) {
+      throw new Error("Challenged player not found");
+    }
+
+    const pieces = getInitialPieces(args.boardSize, args.rules);
     const emptyBoard = createEmptyBoard(args.boardSize);
 
+    // A random colour is drawn when the opponent joins
+    const creatorColor = args.creatorColor ?? "white";
+    let whitePlayer = creatorColor === "white" ? userId : undefined;
+    let blackPlayer = creatorColor === "black" ? userId : undefined;
+
+    // The computer takes the other seat at once, so the game starts now
+    let bot: Doc<"games">["bot"];
+    if (args.botLevel) {
+      if (args.challengedUserId || args.isPrivate) {
+        throw new Error("Games against the computer cannot be challenges");
+      }
+      const humanColor =
+        creatorColor === "random"
+          ? Math.random() < 0.5
+            ? "white"
+            : "black"
+          : creatorColor;
+      const botUserId = await getBotUserId(ctx, args.botLevel);
+      whitePlayer = humanColor === "white" ? userId : botUserId;
+      blackPlayer = humanColor === "black" ? userId : botUserId;
+      bot = {
+        color: humanColor === "white" ? "black" : "white",
+        level: args.botLevel,
+      };
+    }
+
+    const now = Date.now();
     const gameId = await ctx.db.insert("games", {
       boardSize: args.boardSize,
-      status: "waiting",
-      createdAt: Date.now(),
-      whitePlayer: userId,
-      blackPlayer: undefined,
+      status: bot ? "active" : "waiting",
+      createdAt: now,
+      whitePlayer,
+      blackPlayer,
+      createdBy: userId,
+      creatorColor,
       currentPlayer: "white",
       moveCount: 0,
       board: emptyBoard,
@@ -198,17 +226,38 @@ export const createGame = mutation({
       winner: undefined,
       winCondition: undefined,
       komi: args.komi || 0,
-      isRanked: args.isRanked || false,
+      rules: args.rules,
+      // Games against the computer are practice: unranked, no takebacks
+      isRanked: !bot && (args.isRanked || false),
+      // Ranked games never allow takebacks
+      allowTakebacks: !bot && !args.isRanked && (args.allowTakebacks || false),
+      timeControl,
+      ...(timeControl ? initialClocks(timeControl) : {}),
+      lastMoveAt: bot && timeControl ? now : undefined,
+      challengedPlayer: args.challengedUserId,
+      inviteToken: args.isPrivate ? crypto.randomUUID() : undefined,
+      bot,
     });
 
+    if (bot) {
+      if (timeControl) {
+        const { whiteTimeRemaining } = initialClocks(timeControl);
+        await scheduleFlagCheck(ctx, gameId, whiteTimeRemaining);
+      }
+      if (bot.color === "white") {
+        await scheduleBotMove(ctx, gameId);
+      }
+    }
+
     return gameId;
   },
 });
 
-// Join a game
+// Join a game, or accept a challenge
 export const joinGame = mutation({
   args: {
     gameId: v.id("games"),
+    inviteToken: v.optional(v.string()),
   },
   returns: v.null(),
   handler: async (ctx, args) => {
@@ -226,51 +275,143 @@ export const joinGame = mutation({
       throw new Error("Game is not waiting for players");
     }
 
-    if (game.whitePlayer === userId) {
+    const creator = getCreator(game);
+    if (creator === userId) {
       throw new Error("Cannot join your own game");
     }
 
-    if (game.blackPlayer) {
+    if (game.whitePlayer && game.blackPlayer) {
       throw new Error("Game already has two players");
     }
 
+    if (game.challengedPlayer && game.challengedPlayer !== userId) {
+      throw new Error("This game is a challenge to another player");
+    }
+
+    if (game.inviteToken && game.inviteToken !== args.inviteToken) {
+      throw new Error("This private game needs a valid invite link");
+    }
+
+    // White's clock starts as soon as both players are seated
+    const now = Date.now();
+    let joinerColor = getJoinerColor(game);
+    if (joinerColor === "random") {
+      joinerColor = Math.random() < 0.5 ? "white" : "black";
+    }
+
     await ctx.db.patch(args.gameId, {
-      blackPlayer: userId,
+      whitePlayer: joinerColor === "white" ? userId : creator,
+      blackPlayer: joinerColor === "black" ? userId : creator,
       status: "active",
+      lastMoveAt: game.timeControl ? now : undefined,
+      inviteToken: undefined,
     });
+    if (game.whiteTimeRemaining !== undefined) {
+      await scheduleFlagCheck(ctx, args.gameId, game.whiteTimeRemaining);
+    }
   },
 });
 
+// Arguments describing a single move, as stored in the moves table
+const moveArgs = {
+  type: v.union(v.literal("place"), v.literal("move")),
+  // For place moves
+  position: v.optional(
+    v.object({
+      row: v.number(),
+      col: v.number(),
+    })
+  ),
+  pieceType: v.optional(
+    v.union(v.literal("flat"), v.literal("wall"), v.literal("capstone"))
+  ),
+  // For move moves
+  from: v.optional(
+    v.object({
+      row: v.number(),
+      col: v.number(),
+    })
+  ),
+  to: v.optional(
+    v.object({
+      row: v.number(),
+      col: v.number(),
+    })
+  ),
+  stackSize: v.optional(v.number()),
+  dropPattern: v.optional(v.array(v.number())),
+};
+
+// Apply a move for the side to move and record it. Shared by human players
+// and the computer opponent so both go through the same checks.
+async function playMove(
+  ctx: MutationCtx,
+  game: Doc<"games">,
+  playerColor: Player,
+  move: Move
+) {
+  // A move that arrives after the flag falls loses on time instead
+  const now = Date.now();
+  const remaining = getRemainingTime(game, now);
+  if (remaining !== undefined && remaining <= 0) {
+    await flagGame(ctx, game);
+    return;
+  }
+
+  const outcome = applyMove(game, move);
+  if (!outcome.ok) {
+    throw new Error(outcome.error);
+  }
+
+  const newState = outcome.state;
+  const gameResult = result(newState);
+  const clocks = game.timeControl ? pressClock(game, now) : undefined;
+
+  // Update game state
+  await ctx.db.patch(game._id, {
+    board: newState.board,
+    whitePieces: newState.whitePieces,
+    blackPieces: newState.blackPieces,
+    currentPlayer: gameResult ? game.currentPlayer : newState.currentPlayer,
+    moveCount: newState.moveCount,
+    // Moving withdraws the mover's own draw offer
+    drawOfferedBy:
+      game.drawOfferedBy === playerColor ? undefined : game.drawOfferedBy,
+    takebackRequestedBy: undefined,
+    ...clocks,
+  });
+
+  // Record the move before a finish looks at the game's moves
+  await ctx.db.insert("moves", {
+    gameId: game._id,
+    moveNumber: game.moveCount + 1,
+    player: playerColor,
+    ...move,
+    notation: moveToNotation(move),
+    createdAt: now,
+  });
+
+  if (gameResult) {
+    await finishGame(ctx, game, gameResult.winner, gameResult.winCondition);
+  } else {
+    if (clocks) {
+      const opponentTime =
+        newState.currentPlayer === "white"
+          ? clocks.whiteTimeRemaining
+          : clocks.blackTimeRemaining;
+      await scheduleFlagCheck(ctx, game._id, opponentTime ?? 0);
+    }
+    if (game.bot?.color === newState.currentPlayer) {
+      await scheduleBotMove(ctx, game._id);
+    }
+  }
+}
+
 // Make a move
 export const makeMove = mutation({
   args: {
     gameId: v.id("games"),
-    type: v.union(v.literal("place"), v.literal("move")),
-    // For place moves
-    position: v.optional(
-      v.object({
-        row: v.number(),
-        col: v.number(),
-      })
-    ),
-    pieceType: v.optional(
-      v.union(v.literal("flat"), v.literal("wall"), v.literal("capstone"))
-    ),
-    // For move moves
-    from: v.optional(
-      v.object({
-        row: v.number(),
-        col: v.number(),
-      })
-    ),
-    to: v.optional(
-      v.object({
-        row: v.number(),
-        col: v.number(),
-      })
-    ),
-    stackSize: v.optional(v.number()),
-    dropPattern: v.optional(v.array(v.number())),
+    ...moveArgs,
   },
   returns: v.null(),
   handler: async (ctx, args) => {
@@ -301,247 +442,32 @@ export const makeMove = mutation({
       throw new Error("Not your turn");
     }
 
-    let notation = "";
-    const newBoard = JSON.parse(JSON.stringify(game.board)) as Board;
-    const newWhitePieces = { ...game.whitePieces };
-    const newBlackPieces = { ...game.blackPieces };
-
-    if (args.type === "place") {
-      // Handle place move
-      if (!args.position || !args.pieceType) {
-        throw new Error("Position and piece type required for place move");
-      }
-
-      const { row, col } = args.position;
-      const { pieceType } = args;
-
-      if (!isValidPosition(row, col, game.boardSize)) {
-        throw new Error("Invalid position");
-      }
-
-      if (newBoard[row][col].length > 0) {
-        throw new Error("Position already occupied");
-      }
-
-      // Check piece availability
-      const playerPieces =
-        playerColor === "white" ? newWhitePieces : newBlackPieces;
-      if (pieceType === "capstone" && playerPieces.capstone <= 0) {
-        throw new Error("No capstones remaining");
-      }
-      if (pieceType !== "capstone" && playerPieces.flat <= 0) {
-        throw new Error("No flat pieces remaining");
-      }
-
-      // First two moves: players place opponent's pieces
-      let actualPlayer = playerColor;
-      if (game.moveCount < 2) {
-        actualPlayer = playerColor === "white" ? "black" : "white";
-
-        // First move must be a flat piece
-        if (game.moveCount === 0 && pieceType !== "flat") {
-          throw new Error("First move must be a flat piece");
-        }
-      }
-
-      // Place the piece
-      newBoard[row][col].push({
-        type: pieceType,
-        player: actualPlayer,
-      });
-
-      // Update piece counts
-      if (pieceType === "capstone") {
-        if (playerColor === "white") {
-          newWhitePieces.capstone--;
-        } else {
-          newBlackPieces.capstone--;
-        }
-      } else {
-        if (playerColor === "white") {
-          newWhitePieces.flat--;
-        } else {
-          newBlackPieces.flat--;
-        }
-      }
-
-      // Generate notation
-      const file = String.fromCharCode(97 + col); // 'a' + col
-      const rank = row + 1;
-      notation = `${pieceType === "capstone" ? "C" : pieceType === "wall" ? "S" : ""}${file}${rank}`;
-    } else {
-      // Handle move (stack movement)
-      if (!args.from || !args.to || !args.stackSize || !args.dropPattern) {
-        throw new Error(
-          "From, to, stack size, and drop pattern required for move"
-        );
-      }
-
-      const { from, to } = args;
-      const { stackSize, dropPattern } = args;
-
-      if (
-        !isValidPosition(from.row, from.col, game.boardSize) ||
-        !isValidPosition(to.row, to.col, game.boardSize)
-      ) {
-        throw new Error("Invalid position");
-      }
-
-      const fromStack = newBoard[from.row][from.col];
-      if (fromStack.length === 0) {
-        throw new Error("No pieces to move");
-      }
-
-      // Check if player controls the stack (top piece belongs to player)
-      const topPiece = fromStack[fromStack.length - 1];
-      if (topPiece.player !== playerColor) {
-        throw new Error("You don't control this stack");
-      }
-
-      if (stackSize > fromStack.length || stackSize > game.boardSize) {
-        throw new Error("Invalid stack size");
-      }
-
-      // Move must be in straight line
-      const rowDiff = to.row - from.row;
-      const colDiff = to.col - from.col;
-      if (rowDiff !== 0 && colDiff !== 0) {
-        throw new Error("Move must be in straight line");
-      }
-
-      const distance = Math.abs(rowDiff) + Math.abs(colDiff);
-      if (dropPattern.length !== distance) {
-        throw new Error("Drop pattern length must match distance");
-      }
-
-      const totalDrops = dropPattern.reduce((sum, count) => sum + count, 0);
-      if (totalDrops !== stackSize) {
-        throw new Error("Drop pattern must sum to stack size");
-      }
-
-      // Move pieces
-      const movingPieces = fromStack.splice(-stackSize);
-
-      const rowStep = rowDiff === 0 ? 0 : rowDiff > 0 ? 1 : -1;
-      const colStep = colDiff === 0 ? 0 : colDiff > 0 ? 1 : -1;
-
-      let currentRow = from.row;
-      let currentCol = from.col;
-
-      for (let i = 0; i < dropPattern.length; i++) {
-        currentRow += rowStep;
-        currentCol += colStep;
-
-        const dropCount = dropPattern[i];
-        const targetStack = newBoard[currentRow][currentCol];
-
-        // Check for obstructions
-        if (targetStack.length > 0) {
-          const topPieceAtTarget = targetStack[targetStack.length - 1];
-
-          // Can't move onto capstones
-          if (topPieceAtTarget.type === "capstone") {
-            throw new Error("Cannot move onto capstone");
-          }
-
-          // Can only flatten walls with capstone on final drop
-          if (topPieceAtTarget.type === "wall") {
-            if (
-              i !== dropPattern.length - 1 ||
-              dropCount !== 1 ||
-              movingPieces[movingPieces.length - 1].type !== "capstone"
-            ) {
-              throw new Error("Can only flatten wall with single capstone");
-            }
-            // Flatten the wall
-            targetStack[targetStack.length - 1] = {
-              ...topPieceAtTarget,
-              type: "flat",
-            };
-          }
-        }
-
-        // Drop pieces
-        for (let j = 0; j < dropCount; j++) {
-          targetStack.push(movingPieces.shift()!);
-        }
-      }
-
-      // Generate notation for move
-      const fromFile = String.fromCharCode(97 + from.col);
-      const fromRank = from.row + 1;
-      const _toFile = String.fromCharCode(97 + to.col);
-      const _toRank = to.row + 1;
-      const direction =
-        rowDiff > 0 ? "+" : rowDiff < 0 ? "-" : colDiff > 0 ? ">" : "<";
-
-      notation = `${stackSize > 1 ? stackSize : ""}${fromFile}${fromRank}${direction}`;
-      if (dropPattern.length > 1 || dropPattern[0] !== stackSize) {
-        notation += dropPattern.join("");
-      }
-    }
+    await playMove(ctx, game, playerColor, toMove(args));
+  },
+});
 
-    // Check for win conditions
-    let winner: Player | "draw" | undefined;
-    let winCondition: "road" | "flat" | undefined;
-
-    // Check for road win
-    if (checkRoad(newBoard, "white")) {
-      winner = "white";
-      winCondition = "road";
-    } else if (checkRoad(newBoard, "black")) {
-      winner = "black";
-      winCondition = "road";
-    } else if (
-      isBoardFull(newBoard) ||
-      newWhitePieces.flat + newWhitePieces.capstone === 0 ||
-      newBlackPieces.flat + newBlackPieces.capstone === 0
+// The computer opponent's move, chosen by the ai.playBotMove action
+export const makeBotMove = internalMutation({
+  args: {
+    gameId: v.id("games"),
+    moveCount: v.number(), // Position the move was chosen for
+    ...moveArgs,
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const game = await ctx.db.get(args.gameId);
+    if (
+      !game ||
+      game.status !== "active" ||
+      game.bot?.color !== game.currentPlayer ||
+      game.moveCount !== args.moveCount
     ) {
-      // Check for flat win
-      const flatCounts = countFlatStones(newBoard);
-      const whiteScore = flatCounts.white + (game.komi || 0) / 2;
-      const blackScore = flatCounts.black;
-
-      if (whiteScore > blackScore) {
-        winner = "white";
-      } else if (blackScore > whiteScore) {
-        winner = "black";
-      } else {
-        winner = "draw";
-      }
-      winCondition = "flat";
+      // The game moved on while the bot was thinking
+      return null;
     }
 
-    // Update game state
-    const nextPlayer = playerColor === "white" ? "black" : "white";
-    const newStatus: GameStatus = winner ? "finished" : "active";
-
-    await ctx.db.patch(args.gameId, {
-      board: newBoard,
-      whitePieces: newWhitePieces,
-      blackPieces: newBlackPieces,
-      currentPlayer: newStatus === "finished" ? game.currentPlayer : nextPlayer,
-      moveCount: game.moveCount + 1,
-      status: newStatus,
-      winner,
-      winCondition,
-    });
-
-    // Record the move
-    await ctx.db.insert("moves", {
-      gameId: args.gameId,
-      moveNumber: game.moveCount + 1,
-      player: playerColor,
-      type: args.type,
-      position: args.position,
-      pieceType: args.pieceType,
-      from: args.from,
-      to: args.to,
-      stackSize: args.stackSize,
-      dropPattern: args.dropPattern,
-      notation,
-      createdAt: Date.now(),
-    });
+    await playMove(ctx, game, game.currentPlayer, toMove(args));
+    return null;
   },
 });
 
@@ -556,11 +482,15 @@ export const getGame = query({
       status: v.union(
         v.literal("waiting"),
         v.literal("active"),
-        v.literal("finished")
+        v.literal("finished"),
+        v.literal("analysis")
       ),
       createdAt: v.number(),
-      whitePlayer: v.id("users"),
+      whitePlayer: v.optional(v.id("users")),
       blackPlayer: v.optional(v.id("users")),
+      createdBy: v.optional(v.id("users")),
+      importedBy: v.optional(v.id("users")),
+      creatorColor: v.optional(joinerColorValidator),
       currentPlayer: v.union(v.literal("white"), v.literal("black")),
       moveCount: v.number(),
       board: v.array(
@@ -589,15 +519,83 @@ export const getGame = query({
         v.union(v.literal("white"), v.literal("black"), v.literal("draw"))
       ),
       winCondition: v.optional(
-        v.union(v.literal("road"), v.literal("flat"), v.literal("resign"))
+        v.union(
+          v.literal("road"),
+          v.literal("flat"),
+          v.literal("resign"),
+          v.literal("time"),
+          v.literal("agreement")
+        )
       ),
       komi: v.optional(v.number()),
+      rules: v.optional(rulesValidator),
       isRanked: v.boolean(),
+      ptnTags: v.optional(v.record(v.string(), v.string())),
+      timeControl: v.optional(
+        v.object({
+          initialTime: v.number(),
+          increment: v.number(),
+          correspondenceDays: v.optional(v.number()),
+        })
+      ),
+      whiteTimeRemaining: v.optional(v.number()),
+      blackTimeRemaining: v.optional(v.number()),
+      lastMoveAt: v.optional(v.number()),
+      drawOfferedBy: v.optional(
+        v.union(v.literal("white"), v.literal("black"))
+      ),
+      allowTakebacks: v.optional(v.boolean()),
+      takebackRequestedBy: v.optional(
+        v.union(v.literal("white"), v.literal("black"))
+      ),
+      viewerCount: v.optional(v.number()),
+      challengedPlayer: v.optional(v.id("users")),
+      inviteToken: v.optional(v.string()),
+      minedAt: v.optional(v.number()),
+      openingIndexedAt: v.optional(v.number()),
+      rematchOfferedBy: v.optional(
+        v.union(v.literal("white"), v.literal("black"))
+      ),
+      rematchGameId: v.optional(v.id("games")),
+      previousGameId: v.optional(v.id("games")),
+      bot: v.optional(
+        v.object({
+          color: v.union(v.literal("white"), v.literal("black")),
+          level: botLevelValidator,
+        })
+      ),
+      creator: playerSummary,
+      white: v.optional(playerSummary),
+      black: v.optional(playerSummary),
+      challenged: v.optional(playerSummary),
     }),
     v.null()
   ),
   handler: async (ctx, args) => {
-    return await ctx.db.get(args.gameId);
+    const game = await ctx.db.get(args.gameId);
+    if (!game) {
+      return null;
+    }
+
+    // Only the creator gets to see and share the invite link
+    const userId = await getAuthUserId(ctx);
+    const creator = getCreator(game);
+    const inviteToken = creator === userId ? game.inviteToken : undefined;
+
+    return {
+      ...game,
+      inviteToken,
+      creator: await getPlayerSummary(ctx, creator),
+      white: game.whitePlayer
+        ? await getPlayerSummary(ctx, game.whitePlayer)
+        : undefined,
+      black: game.blackPlayer
+        ? await getPlayerSummary(ctx, game.blackPlayer)
+        : undefined,
+      challenged: game.challengedPlayer
+        ? await getPlayerSummary(ctx, game.challengedPlayer)
+        : undefined,
+    };
   },
 });
 
@@ -609,26 +607,198 @@ export const getAvailableGames = query({
       _id: v.id("games"),
       boardSize: v.number(),
       createdAt: v.number(),
-      whitePlayer: v.id("users"),
       isRanked: v.boolean(),
       komi: v.optional(v.number()),
+      rules: v.optional(rulesValidator),
+      timeControl: v.optional(
+        v.object({
+          initialTime: v.number(),
+          increment: v.number(),
+          correspondenceDays: v.optional(v.number()),
+        })
+      ),
+      creator: playerSummary,
+      joinerColor: joinerColorValidator,
     })
   ),
   handler: async (ctx) => {
+    // Challenges and private games are joined another way
     const games = await ctx.db
       .query("games")
       .withIndex("by_status", (q) => q.eq("status", "waiting"))
       .order("desc")
+      .filter((q) =>
+        q.and(
+          q.eq(q.field("challengedPlayer"), undefined),
+          q.eq(q.field("inviteToken"), undefined)
+        )
+      )
       .take(20);
 
-    return games.map((game) => ({
-      _id: game._id,
-      boardSize: game.boardSize,
-      createdAt: game.createdAt,
-      whitePlayer: game.whitePlayer,
-      isRanked: game.isRanked,
-      komi: game.komi,
-    }));
+    return await Promise.all(
+      games.map(async (game) => ({
+        _id: game._id,
+        boardSize: game.boardSize,
+        createdAt: game.createdAt,
+        isRanked: game.isRanked,
+        komi: game.komi,
+        rules: game.rules,
+        timeControl: game.timeControl,
+        creator: await getPlayerSummary(ctx, getCreator(game)),
+        joinerColor: getJoinerColor(game),
+      }))
+    );
+  },
+});
+
+// Games in progress that anyone can watch
+export const getLiveGames = query({
+  args: {},
+  returns: v.array(
+    v.object({
+      _id: v.id("games"),
+      boardSize: v.number(),
+      moveCount: v.number(),
+      currentPlayer: v.union(v.literal("white"), v.literal("black")),
+      isRanked: v.boolean(),
+      timeControl: v.optional(
+        v.object({
+          initialTime: v.number(),
+          increment: v.number(),
+          correspondenceDays: v.optional(v.number()),
+        })
+      ),
+      viewerCount: v.number(),
+      white: playerSummary,
+      black: playerSummary,
+    })
+  ),
+  handler: async (ctx) => {
+    const games = await ctx.db
+      .query("games")
+      .withIndex("by_status", (q) => q.eq("status", "active"))
+      .order("desc")
+      .take(20);
+
+    return await Promise.all(
+      games
+        .filter((game) => game.whitePlayer && game.blackPlayer)
+        .map(async (game) => ({
+          _id: game._id,
+          boardSize: game.boardSize,
+          moveCount: game.moveCount,
+          currentPlayer: game.currentPlayer,
+          isRanked: game.isRanked,
+          timeControl: game.timeControl,
+          viewerCount: game.viewerCount ?? 0,
+          white: await getPlayerSummary(ctx, game.whitePlayer!),
+          black: await getPlayerSummary(ctx, game.blackPlayer!),
+        }))
+    );
+  },
+});
+
+// Open challenges sent to the current user
+export const getChallenges = query({
+  args: {},
+  returns: v.array(
+    v.object({
+      _id: v.id("games"),
+      boardSize: v.number(),
+      createdAt: v.number(),
+      isRanked: v.boolean(),
+      komi: v.optional(v.number()),
+      rules: v.optional(rulesValidator),
+      timeControl: v.optional(
+        v.object({
+          initialTime: v.number(),
+          increment: v.number(),
+          correspondenceDays: v.optional(v.number()),
+        })
+      ),
+      creator: playerSummary,
+      joinerColor: joinerColorValidator,
+    })
+  ),
+  handler: async (ctx) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      return [];
+    }
+
+    const games = await ctx.db
+      .query("games")
+      .withIndex("by_challenged_player", (q) =>
+        q.eq("challengedPlayer", userId).eq("status", "waiting")
+      )
+      .order("desc")
+      .take(20);
+
+    return await Promise.all(
+      games.map(async (game) => ({
+        _id: game._id,
+        boardSize: game.boardSize,
+        createdAt: game.createdAt,
+        isRanked: game.isRanked,
+        komi: game.komi,
+        rules: game.rules,
+        timeControl: game.timeControl,
+        creator: await getPlayerSummary(ctx, getCreator(game)),
+        joinerColor: getJoinerColor(game),
+      }))
+    );
+  },
+});
+
+// Turn down a challenge; the challenge is removed
+export const declineChallenge = mutation({
+  args: { gameId: v.id("games") },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      throw new Error("Not authenticated");
+    }
+
+    const game = await ctx.db.get(args.gameId);
+    if (!game) {
+      throw new Error("Game not found");
+    }
+
+    if (game.status !== "waiting" || game.challengedPlayer !== userId) {
+      throw new Error("No open challenge to decline");
+    }
+
+    await ctx.db.delete(args.gameId);
+    return null;
+  },
+});
+
+// Withdraw a game nobody has joined yet
+export const cancelGame = mutation({
+  args: { gameId: v.id("games") },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      throw new Error("Not authenticated");
+    }
+
+    const game = await ctx.db.get(args.gameId);
+    if (!game) {
+      throw new Error("Game not found");
+    }
+
+    if (getCreator(game) !== userId) {
+      throw new Error("Only the creator can cancel a game");
+    }
+
+    if (game.status !== "waiting") {
+      throw new Error("Only games waiting for an opponent can be cancelled");
+    }
+
+    await ctx.db.delete(args.gameId);
+    return null;
   },
 });
 
@@ -642,10 +812,11 @@ export const getUserGames = query({
       status: v.union(
         v.literal("waiting"),
         v.literal("active"),
-        v.literal("finished")
+        v.literal("finished"),
+        v.literal("analysis")
       ),
       createdAt: v.number(),
-      whitePlayer: v.id("users"),
+      whitePlayer: v.optional(v.id("users")),
       blackPlayer: v.optional(v.id("users")),
       currentPlayer: v.union(v.literal("white"), v.literal("black")),
       moveCount: v.number(),
@@ -653,6 +824,9 @@ export const getUserGames = query({
         v.union(v.literal("white"), v.literal("black"), v.literal("draw"))
       ),
       isRanked: v.boolean(),
+      creator: playerSummary,
+      white: v.optional(playerSummary),
+      black: v.optional(playerSummary),
     })
   ),
   handler: async (ctx) => {
@@ -673,22 +847,40 @@ export const getUserGames = query({
       .order("desc")
       .take(50);
 
-    const allGames = [...whiteGames, ...blackGames]
+    // Waiting games where the creator's colour is still to be drawn
+    const unseatedGames = await ctx.db
+      .query("games")
+      .withIndex("by_creator", (q) =>
+        q.eq("createdBy", userId).eq("status", "waiting")
+      )
+      .filter((q) => q.eq(q.field("creatorColor"), "random"))
+      .take(50);
+
+    const allGames = [...whiteGames, ...blackGames, ...unseatedGames]
       .sort((a, b) => b.createdAt - a.createdAt)
       .slice(0, 50);
 
-    return allGames.map((game) => ({
-      _id: game._id,
-      boardSize: game.boardSize,
-      status: game.status,
-      createdAt: game.createdAt,
-      whitePlayer: game.whitePlayer,
-      blackPlayer: game.blackPlayer,
-      currentPlayer: game.currentPlayer,
-      moveCount: game.moveCount,
-      winner: game.winner,
-      isRanked: game.isRanked,
-    }));
+    return await Promise.all(
+      allGames.map(async (game) => ({
+        _id: game._id,
+        boardSize: game.boardSize,
+        status: game.status,
+        createdAt: game.createdAt,
+        whitePlayer: game.whitePlayer,
+        blackPlayer: game.blackPlayer,
+        currentPlayer: game.currentPlayer,
+        moveCount: game.moveCount,
+        winner: game.winner,
+        isRanked: game.isRanked,
+        creator: await getPlayerSummary(ctx, getCreator(game)),
+        white: game.whitePlayer
+          ? await getPlayerSummary(ctx, game.whitePlayer)
+          : undefined,
+        black: game.blackPlayer
+          ? await getPlayerSummary(ctx, game.blackPlayer)
+          : undefined,
+      }))
+    );
   },
 });
 
@@ -723,38 +915,299 @@ export const getGameMoves = query({
   },
 });
 
+// Every legal move for the side to move, in structured form and as PTN
+export const getLegalMoves = query({
+  args: { gameId: v.id("games") },
+  returns: v.object({
+    currentPlayer: v.union(v.literal("white"), v.literal("black")),
+    // During the first two plies the placed flat belongs to the opponent
+    placesOpponentPiece: v.boolean(),
+    moves: v.array(v.object({ ...moveArgs, notation: v.string() })),
+  }),
+  handler: async (ctx, args) => {
+    const game = await ctx.db.get(args.gameId);
+    if (!game) {
+      throw new Error("Game not found");
+    }
+
+    const moves =
+      game.status === "active"
+        ? legalMoves(game).map((move) => ({
+            ...move,
+            notation: moveToNotation(move),
+          }))
+        : [];
+
+    return {
+      currentPlayer: game.currentPlayer,
+      placesOpponentPiece: placesOpponentPiece(game),
+      moves,
+    };
+  },
+});
+
 // Resign from game
 export const resignGame = mutation({
   args: { gameId: v.id("games") },
   returns: v.null(),
   handler: async (ctx, args) => {
-    const userId = await getAuthUserId(ctx);
-    if (!userId) {
-      throw new Error("Not authenticated");
+    const { game, playerColor } = await getActivePlayer(ctx, args.gameId);
+
+    const winner = playerColor === "white" ? "black" : "white";
+
+    await finishGame(ctx, game, winner, "resign");
+  },
+});
+
+// Offer a draw to the opponent
+export const offerDraw = mutation({
+  args: { gameId: v.id("games") },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const { game, playerColor } = await getActivePlayer(ctx, args.gameId);
+
+    if (game.bot) {
+      throw new Error("The computer does not accept draws");
     }
 
-    const game = await ctx.db.get(args.gameId);
-    if (!game) {
-      throw new Error("Game not found");
+    if (game.drawOfferedBy) {
+      throw new Error("A draw offer is already pending");
     }
 
-    if (game.status !== "active") {
-      throw new Error("Game is not active");
+    await ctx.db.patch(args.gameId, { drawOfferedBy: playerColor });
+  },
+});
+
+// Accept the opponent's draw offer
+export const acceptDraw = mutation({
+  args: { gameId: v.id("games") },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const { game, playerColor } = await getActivePlayer(ctx, args.gameId);
+
+    if (!game.drawOfferedBy || game.drawOfferedBy === playerColor) {
+      throw new Error("No draw offer to accept");
     }
 
-    const isWhitePlayer = game.whitePlayer === userId;
-    const isBlackPlayer = game.blackPlayer === userId;
+    await finishGame(ctx, game, "draw", "agreement");
+  },
+});
 
-    if (!isWhitePlayer && !isBlackPlayer) {
-      throw new Error("You are not a player in this game");
+// Decline the opponent's draw offer
+export const declineDraw = mutation({
+  args: { gameId: v.id("games") },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const { game, playerColor } = await getActivePlayer(ctx, args.gameId);
+
+    if (!game.drawOfferedBy || game.drawOfferedBy === playerColor) {
+      throw new Error("No draw offer to decline");
     }
 
-    const winner = isWhitePlayer ? "black" : "white";
+    await ctx.db.patch(args.gameId, { drawOfferedBy: undefined });
+  },
+});
+
+// Ask the opponent to undo the last ply
+export const requestTakeback = mutation({
+  args: { gameId: v.id("games") },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const { game, playerColor } = await getActivePlayer(ctx, args.gameId);
+
+    if (!game.allowTakebacks) {
+      throw new Error("Takebacks are not allowed in this game");
+    }
+
+    if (game.moveCount === 0) {
+      throw new Error("There is no move to take back");
+    }
+
+    if (game.takebackRequestedBy) {
+      throw new Error("A takeback request is already pending");
+    }
+
+    await ctx.db.patch(args.gameId, { takebackRequestedBy: playerColor });
+  },
+});
+
+// Approve the opponent's takeback request and restore the previous position
+export const acceptTakeback = mutation({
+  args: { gameId: v.id("games") },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const { game, playerColor } = await getActivePlayer(ctx, args.gameId);
+
+    if (!game.takebackRequestedBy || game.takebackRequestedBy === playerColor) {
+      throw new Error("No takeback request to accept");
+    }
+
+    const moves = await ctx.db
+      .query("moves")
+      .withIndex("by_game", (q) => q.eq("gameId", args.gameId))
+      .order("asc")
+      .collect();
+    const lastMove = moves.pop();
+    if (!lastMove) {
+      throw new Error("There is no move to take back");
+    }
+
+    // Rebuild the position from the remaining moves
+    const previous = replayMoves(
+      createInitialState(game.boardSize, game.komi, game.rules),
+      moves.map(toMove)
+    );
+
+    // The side to move pays for the time spent before the takeback, with
+    // no increment since they didn't move, and can't take back a move once
+    // their flag has fallen
+    const now = Date.now();
+    const remaining = getRemainingTime(game, now);
+    if (remaining !== undefined && remaining <= 0) {
+      await flagGame(ctx, game);
+      return;
+    }
+    const clocks = game.timeControl
+      ? pressClock(game, now, { increment: false })
+      : undefined;
 
     await ctx.db.patch(args.gameId, {
-      status: "finished",
-      winner,
-      winCondition: "resign",
+      board: previous.board,
+      whitePieces: previous.whitePieces,
+      blackPieces: previous.blackPieces,
+      currentPlayer: previous.currentPlayer,
+      moveCount: previous.moveCount,
+      takebackRequestedBy: undefined,
+      ...clocks,
     });
+    await ctx.db.delete(lastMove._id);
+
+    // The restored side to move gets a fresh flag check
+    if (clocks) {
+      await scheduleFlagCheck(
+        ctx,
+        args.gameId,
+        (previous.currentPlayer === "white"
+          ? clocks.whiteTimeRemaining
+          : clocks.blackTimeRemaining) ?? 0
+      );
+    }
+  },
+});
+
+// Refuse the opponent's takeback request
+export const declineTakeback = mutation({
+  args: { gameId: v.id("games") },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const { game, playerColor } = await getActivePlayer(ctx, args.gameId);
+
+    if (!game.takebackRequestedBy || game.takebackRequestedBy === playerColor) {
+      throw new Error("No takeback request to decline");
+    }
+
+    await ctx.db.patch(args.gameId, { takebackRequestedBy: undefined });
+  },
+});
+
+// Offer the opponent another game once this one is over
+export const offerRematch = mutation({
+  args: { gameId: v.id("games") },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const { game, playerColor } = await getActivePlayer(
+      ctx,
+      args.gameId,
+      "finished"
+    );
+
+    if (!game.whitePlayer || !game.blackPlayer || game.bot) {
+      throw new Error("This game has no opponent to rematch");
+    }
+
+    if (game.rematchGameId) {
+      throw new Error("A rematch has already been played");
+    }
+
+    if (game.rematchOfferedBy) {
+      throw new Error("A rematch offer is already pending");
+    }
+
+    await ctx.db.patch(args.gameId, { rematchOfferedBy: playerColor });
+  },
+});
+
+// Accept the opponent's rematch offer: same settings, colours swapped
+export const acceptRematch = mutation({
+  args: { gameId: v.id("games") },
+  returns: v.id("games"),
+  handler: async (ctx, args) => {
+    const { game, playerColor } = await getActivePlayer(
+      ctx,
+      args.gameId,
+      "finished"
+    );
+
+    if (!game.rematchOfferedBy || game.rematchOfferedBy === playerColor) {
+      throw new Error("No rematch offer to accept");
+    }
+
+    const pieces = getInitialPieces(game.boardSize, game.rules);
+    const now = Date.now();
+    const offeredBy =
+      playerColor === "white" ? game.blackPlayer : game.whitePlayer;
+    const rematchId = await ctx.db.insert("games", {
+      boardSize: game.boardSize,
+      status: "active",
+      createdAt: now,
+      whitePlayer: game.blackPlayer,
+      blackPlayer: game.whitePlayer,
+      createdBy: offeredBy,
+      creatorColor: game.rematchOfferedBy === "white" ? "black" : "white",
+      currentPlayer: "white",
+      moveCount: 0,
+      board: createEmptyBoard(game.boardSize),
+      whitePieces: pieces,
+      blackPieces: pieces,
+      komi: game.komi,
+      rules: game.rules,
+      isRanked: game.isRanked,
+      allowTakebacks: game.allowTakebacks,
+      timeControl: game.timeControl,
+      ...(game.timeControl ? initialClocks(game.timeControl) : {}),
+      lastMoveAt: game.timeControl ? now : undefined,
+      previousGameId: game._id,
+    });
+
+    await ctx.db.patch(args.gameId, {
+      rematchOfferedBy: undefined,
+      rematchGameId: rematchId,
+    });
+
+    if (game.timeControl) {
+      const { whiteTimeRemaining } = initialClocks(game.timeControl);
+      await scheduleFlagCheck(ctx, rematchId, whiteTimeRemaining);
+    }
+
+    return rematchId;
+  },
+});
+
+// Decline the opponent's rematch offer
+export const declineRematch = mutation({
+  args: { gameId: v.id("games") },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const { game, playerColor } = await getActivePlayer(
+      ctx,
+      args.gameId,
+      "finished"
+    );
+
+    if (!game.rematchOfferedBy || game.rematchOfferedBy === playerColor) {
+      throw new Error("No rematch offer to decline");
+    }
+
+    await ctx.db.patch(args.gameId, { rematchOfferedBy: undefined });
   },
 });
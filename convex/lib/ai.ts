@@ -0,0 +1,245 @@
+// Computer opponent: alpha-beta search over the shared rules engine.
+// Like tak.ts, nothing here may depend on Convex or React.
+
+import {
+  Board,
+  GameState,
+  Move,
+  Player,
+  Position,
+  applyMove,
+  getOpponent,
+  isValidPosition,
+  legalMoves,
+  result,
+} from "./tak";
+import { TINUE_DEPTH, forcedRoadWin } from "./threats";
+
+export type BotLevel = "easy" | "medium" | "hard";
+
+interface SearchSettings {
+  maxDepth: number; // Plies searched at most
+  timeLimit: number; // Milliseconds before the deepest finished search is used
+  randomness: number; // Noise added to each root move's score
+  tinueDepth: number; // Own moves checked for a forced road before searching
+}
+
+export const BOT_LEVELS: Record<BotLevel, SearchSettings> = {
+  easy: { maxDepth: 1, timeLimit: 1000, randomness: 300, tinueDepth: 0 },
+  medium: {
+    maxDepth: 2,
+    timeLimit: 3000,
+    randomness: 40,
+    tinueDepth: TINUE_DEPTH,
+  },
+  hard: {
+    maxDepth: 4,
+    timeLimit: 8000,
+    randomness: 0,
+    tinueDepth: TINUE_DEPTH,
+  },
+};
+
+const TINUE_TIME_SHARE = 0.5; // Of the time limit, for the forced road check
+
+const WIN_SCORE = 1_000_000;
+
+const FLAT_VALUE = 100;
+const WALL_VALUE = 40;
+const CAPSTONE_VALUE = 70;
+const RESERVE_VALUE = 12; // Own pieces under a stack this player controls
+const CAPTIVE_VALUE = 6; // Opponent pieces held under this player's stacks
+const ROAD_VALUE = 10; // Multiplied by the square of the best group's span
+
+const STEPS: Position[] = [
+  { row: 1, col: 0 },
+  { row: -1, col: 0 },
+  { row: 0, col: 1 },
+  { row: 0, col: -1 },
+];
+
+class SearchTimeout extends Error {}
+
+// Widest row or column span of any connected group of road pieces
+function roadSpan(board: Board, player: Player): number {
+  const size = board.length;
+  const seen = board.map((row) => row.map(() => false));
+  let best = 0;
+
+  const isRoadPiece = (row: number, col: number) => {
+    const top = board[row][col][board[row][col].length - 1];
+    return !!top && top.player === player && top.type !== "wall";
+  };
+
+  for (let row = 0; row < size; row++) {
+    for (let col = 0; col < size; col++) {
+      if (seen[row][col] || !isRoadPiece(row, col)) continue;
+
+      let minRow = row;
+      let maxRow = row;
+      let minCol = col;
+      let maxCol = col;
+      const stack: Position[] = [{ row, col }];
+      seen[row][col] = true;
+      while (stack.length > 0) {
+        const square = stack.pop()!;
+        minRow = Math.min(minRow, square.row);
+        maxRow = Math.max(maxRow, square.row);
+        minCol = Math.min(minCol, square.col);
+        maxCol = Math.max(maxCol, square.col);
+        for (const step of STEPS) {
+          const r = square.row + step.row;
+          const c = square.col + step.col;
+          if (isValidPosition(r, c, size) && !seen[r][c] && isRoadPiece(r, c)) {
+            seen[r][c] = true;
+            stack.push({ row: r, col: c });
+          }
+        }
+      }
+
+      best = Math.max(best, maxRow - minRow + 1, maxCol - minCol + 1);
+    }
+  }
+
+  return best;
+}
+
+// Static score of a position for `player`; positive is good for them
+export function evaluate(state: GameState, player: Player): number {
+  const scores = { white: 0, black: 0 };
+
+  for (const row of state.board) {
+    for (const stack of row) {
+      const top = stack[stack.length - 1];
+      if (!top) continue;
+
+      scores[top.player] +=
+        top.type === "flat"
+          ? FLAT_VALUE
+          : top.type === "wall"
+            ? WALL_VALUE
+            : CAPSTONE_VALUE;
+
+      for (let i = 0; i < stack.length - 1; i++) {
+        scores[top.player] +=
+          stack[i].player === top.player ? RESERVE_VALUE : CAPTIVE_VALUE;
+      }
+    }
+  }
+
+  for (const side of ["white", "black"] as const) {
+    scores[side] += ROAD_VALUE * roadSpan(state.board, side) ** 2;
+  }
+  scores.white += ((state.komi || 0) / 2) * FLAT_VALUE;
+
+  return scores[player] - scores[getOpponent(player)];
+}
+
+// Negamax with alpha-beta pruning, scored for the side to move
+function search(
+  state: GameState,
+  depth: number,
+  alpha: number,
+  beta: number,
+  ply: number,
+  deadline: number
+): number {
+  if (Date.now() > deadline) {
+    throw new SearchTimeout();
+  }
+
+  const outcome = result(state);
+  if (outcome) {
+    if (outcome.winner === "draw") return 0;
+    // Prefer quicker wins and slower losses
+    const score = WIN_SCORE - ply;
+    return outcome.winner === state.currentPlayer ? score : -score;
+  }
+
+  if (depth === 0) {
+    return evaluate(state, state.currentPlayer);
+  }
+
+  let best = -Infinity;
+  for (const move of legalMoves(state)) {
+    const next = applyMove(state, move);
+    if (!next.ok) continue;
+
+    const score = -search(
+      next.state,
+      depth - 1,
+      -beta,
+      -alpha,
+      ply + 1,
+      deadline
+    );
+    best = Math.max(best, score);
+    alpha = Math.max(alpha, score);
+    if (alpha >= beta) break;
+  }
+
+  return best === -Infinity ? evaluate(state, state.currentPlayer) : best;
+}
+
+// Pick a move for the side to move at the given strength. Searches one ply
+// deeper at a time until the level's depth or time limit is reached.
+export function chooseMove(
+  state: GameState,
+  level: BotLevel,
+  random: () => number = Math.random
+): Move {
+  const settings = BOT_LEVELS[level];
+  const moves = legalMoves(state);
+  if (moves.length === 0) {
+    throw new Error("No legal moves");
+  }
+
+  // A road that cannot be stopped beats anything the search might prefer.
+  // The check only gets part of the time, so the search always has some.
+  const start = Date.now();
+  const deadline = start + settings.timeLimit;
+  if (settings.tinueDepth > 0) {
+    const forced = forcedRoadWin(
+      state,
+      settings.tinueDepth,
+      start + settings.timeLimit * TINUE_TIME_SHARE
+    );
+    if (forced) return forced;
+  }
+
+  const noise = moves.map(() => (random() - 0.5) * settings.randomness);
+  let ordered = moves.map((move, index) => ({ move, index }));
+  let bestMove = moves[0];
+
+  for (let depth = 1; depth <= settings.maxDepth; depth++) {
+    const scored: { move: Move; index: number; score: number }[] = [];
+    try {
+      let alpha = -Infinity;
+      for (const { move, index } of ordered) {
+        const next = applyMove(state, move);
+        if (!next.ok) continue;
+
+        // Noisy levels need every root score exact, not just the best one
+        const beta = settings.randomness > 0 ? Infinity : -alpha;
+        const score =
+          -search(next.state, depth - 1, -Infinity, beta, 1, deadline) +
+          noise[index];
+        scored.push({ move, index, score });
+        alpha = Math.max(alpha, score);
+      }
+    } catch (error) {
+      if (error instanceof SearchTimeout) break;
+      throw error;
+    }
+
+    // Search the best moves first next time round, so pruning bites sooner
+    scored.sort((a, b) => b.score - a.score);
+    bestMove = scored[0]?.move ?? bestMove;
+    ordered = scored;
+
+    // A forced win needs no deeper search
+    if (scored[0] && scored[0].score > WIN_SCORE / 2) break;
+  }
+
+  return bestMove;
+}
@@ -0,0 +1,156 @@
+// Variation trees for the analysis board. Pure like ./tak, so the client
+// builds the tree and the backend checks it with the same code.
+
+import { moveToNotation } from "./tak";
+import { parseMove } from "./ptn";
+
+// A side line that splits off the game, or off another variation
+export interface Variation {
+  id: string;
+  parentId?: string; // Absent when branching from the game itself
+  branchPly: number; // Plies of the parent line played before the split
+  moves: string[]; // PTN for each ply after the split
+}
+
+// Marker and comment on one move. A move belongs to the line that first
+// plays it, so `lineId` is absent for moves of the game itself.
+export interface Annotation {
+  lineId?: string;
+  ply: number; // 1 for the first move of the game
+  marker?: string;
+  comment?: string;
+}
+
+// A point in the tree: `ply` plies along a line, 0 being the start
+export interface Cursor {
+  lineId?: string;
+  ply: number;
+}
+
+// Tak markers (' and '') optionally followed by ! or ?
+const MARKER_PATTERN = /^('{1,2})?([!?]{1,2})?$/;
+
+export function isValidMarker(marker: string): boolean {
+  return marker.length > 0 && MARKER_PATTERN.test(marker);
+}
+
+function findVariation(variations: Variation[], id: string): Variation {
+  const variation = variations.find((candidate) => candidate.id === id);
+  if (!variation) {
+    throw new Error(`Unknown variation ${id}`);
+  }
+  return variation;
+}
+
+// Every move from the start position to the end of a line
+export function lineMoves(
+  mainLine: string[],
+  variations: Variation[],
+  lineId?: string
+): string[] {
+  if (lineId === undefined) return mainLine;
+
+  const variation = findVariation(variations, lineId);
+  const parentMoves = lineMoves(mainLine, variations, variation.parentId);
+  return [...parentMoves.slice(0, variation.branchPly), ...variation.moves];
+}
+
+// The line whose own move is played at `ply` along `lineId`
+export function moveOwner(
+  variations: Variation[],
+  lineId: string | undefined,
+  ply: number
+): string | undefined {
+  let owner = lineId;
+  while (owner !== undefined) {
+    const variation = findVariation(variations, owner);
+    if (ply > variation.branchPly) break;
+    owner = variation.parentId;
+  }
+  return owner;
+}
+
+// Variations that offer an alternative to the move after `ply` on a line
+export function childVariations(
+  variations: Variation[],
+  lineId: string | undefined,
+  ply: number
+): Variation[] {
+  return variations.filter(
+    (variation) => variation.parentId === lineId && variation.branchPly === ply
+  );
+}
+
+// Play a move at the cursor: follow an existing line if it already has
+// this move, extend the line if the cursor is at its end, or branch off
+export function playMove(
+  mainLine: string[],
+  variations: Variation[],
+  cursor: Cursor,
+  notation: string,
+  newId: string
+): { variations: Variation[]; cursor: Cursor } {
+  const current = lineMoves(mainLine, variations, cursor.lineId);
+  const next = { ply: cursor.ply + 1 };
+
+  if (current[cursor.ply] === notation) {
+    return { variations, cursor: { ...next, lineId: cursor.lineId } };
+  }
+
+  if (cursor.lineId !== undefined && cursor.ply === current.length) {
+    return {
+      variations: variations.map((variation) =>
+        variation.id === cursor.lineId
+          ? { ...variation, moves: [...variation.moves, notation] }
+          : variation
+      ),
+      cursor: { ...next, lineId: cursor.lineId },
+    };
+  }
+
+  // Branch off the line whose move is being replaced
+  const parentId = moveOwner(variations, cursor.lineId, cursor.ply + 1);
+  const existing = childVariations(variations, parentId, cursor.ply).find(
+    (variation) => variation.moves[0] === notation
+  );
+  if (existing) {
+    return { variations, cursor: { ...next, lineId: existing.id } };
+  }
+
+  return {
+    variations: [
+      ...variations,
+      { id: newId, parentId, branchPly: cursor.ply, moves: [notation] },
+    ],
+    cursor: { ...next, lineId: newId },
+  };
+}
+
+// Remove a variation along with everything branching off it
+export function deleteVariation(
+  variations: Variation[],
+  id: string
+): Variation[] {
+  const doomed = new Set([id]);
+  let grew = true;
+  while (grew) {
+    grew = false;
+    for (const variation of variations) {
+      if (
+        variation.parentId !== undefined &&
+        doomed.has(variation.parentId) &&
+        !doomed.has(variation.id)
+      ) {
+        doomed.add(variation.id);
+        grew = true;
+      }
+    }
+  }
+  return variations.filter((variation) => !doomed.has(variation.id));
+}
+
+// Canonical notation for a typed move, e.g. "1a1>1" becomes "a1>"
+export function normalizeNotation(notation: string): string | null {
+  const move = parseMove(notation);
+  return move ? moveToNotation(move) : null;
+}
@@ -0,0 +1,89 @@
+// Glicko-2 rating calculation (Glickman, "Example of the Glicko-2 system").
+// Each finished ranked game is treated as its own rating period.
+
+export interface Rating {
+  rating: number;
+  deviation: number;
+  volatility: number;
+}
+
+export const DEFAULT_RATING: Rating = {
+  rating: 1500,
+  deviation: 350,
+  volatility: 0.06,
+};
+
+const SCALE = 173.7178; // Converts between Glicko and Glicko-2 scales
+const TAU = 0.5; // Constrains how quickly volatility can change
+const EPSILON = 0.000001;
+const MIN_DEVIATION = 30;
+
+// New rating for `player` after scoring 1, 0.5 or 0 against `opponent`
+export function updateRating(
+  player: Rating,
+  opponent: Rating,
+  score: number
+): Rating {
+  const mu = (player.rating - DEFAULT_RATING.rating) / SCALE;
+  const phi = player.deviation / SCALE;
+  const sigma = player.volatility;
+  const opponentMu = (opponent.rating - DEFAULT_RATING.rating) / SCALE;
+  const opponentPhi = opponent.deviation / SCALE;
+
+  const g = 1 / Math.sqrt(1 + (3 * opponentPhi ** 2) / Math.PI ** 2);
+  const expected = 1 / (1 + Math.exp(-g * (mu - opponentMu)));
+  const variance = 1 / (g ** 2 * expected * (1 - expected));
+  const delta = variance * g * (score - expected);
+
+  // New volatility, found with the Illinois algorithm
+  const a = Math.log(sigma ** 2);
+  const f = (x: number) => {
+    const ex = Math.exp(x);
+    return (
+      (ex * (delta ** 2 - phi ** 2 - variance - ex)) /
+        (2 * (phi ** 2 + variance + ex) ** 2) -
+      (x - a) / TAU ** 2
+    );
+  };
+
+  let lower = a;
+  let upper: number;
+  if (delta ** 2 > phi ** 2 + variance) {
+    upper = Math.log(delta ** 2 - phi ** 2 - variance);
+  } else {
+    let k = 1;
+    while (f(a - k * TAU) < 0) {
+      k++;
+    }
+    upper = a - k * TAU;
+  }
+
+  let fLower = f(lower);
+  let fUpper = f(upper);
+  while (Math.abs(upper - lower) > EPSILON) {
+    const next = lower + ((lower - upper) * fLower) / (fUpper - fLower);
+    const fNext = f(next);
+    if (fNext * fUpper <= 0) {
+      lower = upper;
+      fLower = fUpper;
+    } else {
+      fLower /= 2;
+    }
+    upper = next;
+    fUpper = fNext;
+  }
+  const newSigma = Math.exp(lower / 2);
+
+  const phiStar = Math.sqrt(phi ** 2 + newSigma ** 2);
+  const newPhi = 1 / Math.sqrt(1 / phiStar ** 2 + 1 / variance);
+  const newMu = mu + newPhi ** 2 * g * (score - expected);
+
+  return {
+    rating: newMu * SCALE + DEFAULT_RATING.rating,
+    deviation: Math.min(
+      Math.max(newPhi * SCALE, MIN_DEVIATION),
+      DEFAULT_RATING.deviation
+    ),
+    volatility: newSigma,
+  };
+}
@@ -0,0 +1,120 @@
+// Position keys for the opening explorer. Positions that are rotations or
+// reflections of each other share a key, and moves are stored in the frame
+// of that shared (canonical) orientation. Pure like ./tak.
+
+import { GameState, Move, Piece, Position, moveToNotation } from "./tak";
+import { parseMove } from "./ptn";
+
+export const OPENING_PLIES = 12; // How deep into each game the explorer goes
+
+// The 8 symmetries of the square: bit 4 transposes, then bit 1 flips the
+// rows and bit 2 flips the columns
+const SYMMETRIES = [0, 1, 2, 3, 4, 5, 6, 7];
+
+export function transformSquare(
+  square: Position,
+  symmetry: number,
+  size: number
+): Position {
+  let { row, col } = square;
+  if (symmetry & 4) [row, col] = [col, row];
+  if (symmetry & 1) row = size - 1 - row;
+  if (symmetry & 2) col = size - 1 - col;
+  return { row, col };
+}
+
+// The symmetry that undoes `symmetry`. Flips come after the transpose, so
+// undoing a transposed one swaps which axis is flipped.
+export function inverseSymmetry(symmetry: number): number {
+  if (!(symmetry & 4)) return symmetry;
+  return 4 | ((symmetry & 1) << 1) | ((symmetry & 2) >> 1);
+}
+
+export function transformMove(
+  move: Move,
+  symmetry: number,
+  size: number
+): Move {
+  if (move.type === "place") {
+    return {
+      ...move,
+      position: transformSquare(move.position, symmetry, size),
+    };
+  }
+  return {
+    ...move,
+    from: transformSquare(move.from, symmetry, size),
+    to: transformSquare(move.to, symmetry, size),
+  };
+}
+
+function pieceCode(piece: Piece): string {
+  const code =
+    piece.type === "capstone" ? "c" : piece.type === "wall" ? "s" : "f";
+  return piece.player === "white" ? code.toUpperCase() : code;
+}
+
+// The position as seen through one symmetry. Pieces on the board also fix
+// both reserves under the standard rules, so they are left out.
+function positionKey(state: GameState, symmetry: number): string {
+  const size = state.boardSize;
+  const squares: string[] = [];
+  for (let row = 0; row < size; row++) {
+    for (let col = 0; col < size; col++) {
+      // Read the transformed board: which square lands on (row, col)
+      const from = transformSquare(
+        { row, col },
+        inverseSymmetry(symmetry),
+        size
+      );
+      squares.push(state.board[from.row][from.col].map(pieceCode).join(""));
+    }
+  }
+  return `${state.currentPlayer === "white" ? "w" : "b"}/${squares.join(",")}`;
+}
+
+// The key shared by every orientation of the position, and each symmetry
+// that turns this orientation into the canonical one
+export function canonicalPosition(state: GameState): {
+  key: string;
+  symmetries: number[];
+} {
+  let key: string | null = null;
+  let symmetries: number[] = [];
+  for (const symmetry of SYMMETRIES) {
+    const candidate = positionKey(state, symmetry);
+    if (key === null || candidate < key) {
+      key = candidate;
+      symmetries = [symmetry];
+    } else if (candidate === key) {
+      symmetries.push(symmetry);
+    }
+  }
+  return { key: key!, symmetries };
+}
+
+// A move in the canonical frame. Where the position is symmetric, moves
+// that mirror each other (like a1 and e5 on an empty board) become one.
+export function canonicalMove(
+  state: GameState,
+  symmetries: number[],
+  move: Move
+): string {
+  return symmetries
+    .map((symmetry) =>
+      moveToNotation(transformMove(move, symmetry, state.boardSize))
+    )
+    .sort()[0];
+}
+
+// A move stored in the canonical frame, turned back into the frame of a
+// position that the canonical one was reached from with `symmetry`
+export function orientMove(
+  notation: string,
+  symmetry: number,
+  size: number
+): string | null {
+  const move = parseMove(notation);
+  if (!move) return null;
+  return moveToNotation(transformMove(move, inverseSymmetry(symmetry), size));
+}
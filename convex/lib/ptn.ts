@@ -0,0 +1,243 @@
+// Portable Tak Notation (PTN) parsing and formatting.
+// Pure like ./tak, so the client can read and write PTN too.
+
+import {
+  GameState,
+  Move,
+  PieceType,
+  Position,
+  RuleVariants,
+  applyMove,
+  rulesError,
+} from "./tak";
+
+export type PtnTags = Record<string, string>;
+
+export interface PtnGame {
+  tags: PtnTags;
+  moves: string[]; // Notation for each ply, markers stripped
+  result?: string;
+}
+
+export interface PtnOutcome {
+  winner: "white" | "black" | "draw";
+  winCondition?: "road" | "flat" | "resign" | "time" | "agreement";
+}
+
+const RESULT_PATTERN = /^(R-0|0-R|F-0|0-F|1-0|0-1|1\/2-1\/2|0-0)$/;
+const PLACE_PATTERN = /^([FSC])?([a-h])([1-8])$/;
+const MOVE_PATTERN = /^([1-8])?([a-h])([1-8])([<>+-])([1-8]*)$/;
+
+// Tags written first, in this order; any others follow alphabetically
+const TAG_ORDER = [
+  "Size",
+  "Komi",
+  "Flats",
+  "Caps",
+  "Rules",
+  "Player1",
+  "Player2",
+  "Date",
+  "Result",
+];
+
+// Keywords in the Rules tag for each on/off rule variant
+const RULE_KEYWORDS = {
+  noWalls: "no-walls",
+  dragon: "dragon",
+  noSwap: "no-swap",
+} as const;
+const RULE_FLAGS = Object.keys(RULE_KEYWORDS) as (keyof typeof RULE_KEYWORDS)[];
+
+function parseSquare(file: string, rank: string): Position {
+  return { row: Number(rank) - 1, col: file.charCodeAt(0) - 97 };
+}
+
+// Strip move markers such as ', '', *, ! and ? from a notation token
+export function stripMarkers(token: string): string {
+  return token.replace(/['"*!?]+$/, "");
+}
+
+// Parse one move, e.g. "Sc3", "3b2>111" or "Ca1"
+export function parseMove(notation: string): Move | null {
+  const token = stripMarkers(notation.trim());
+
+  const place = PLACE_PATTERN.exec(token);
+  if (place) {
+    const pieceType: PieceType =
+      place[1] === "C" ? "capstone" : place[1] === "S" ? "wall" : "flat";
+    return {
+      type: "place",
+      position: parseSquare(place[2], place[3]),
+      pieceType,
+    };
+  }
+
+  const move = MOVE_PATTERN.exec(token);
+  if (move) {
+    const stackSize = move[1] ? Number(move[1]) : 1;
+    const from = parseSquare(move[2], move[3]);
+    const dropPattern = move[5] ? move[5].split("").map(Number) : [stackSize];
+    const distance = dropPattern.length;
+    const direction = move[4];
+    const to = {
+      row:
+        from.row +
+        (direction === "+" ? distance : direction === "-" ? -distance : 0),
+      col:
+        from.col +
+        (direction === ">" ? distance : direction === "<" ? -distance : 0),
+    };
+    return { type: "move", from, to, stackSize, dropPattern };
+  }
+
+  return null;
+}
+
+// Replay moves from a position, giving the position after each ply.
+// Throws on the first move that does not parse or is illegal.
+export function replayNotation(
+  initial: GameState,
+  notations: string[]
+): GameState[] {
+  const states = [initial];
+  for (const notation of notations) {
+    const move = parseMove(notation);
+    if (!move) {
+      throw new Error(`Unrecognised PTN move "${notation}"`);
+    }
+    const outcome = applyMove(states[states.length - 1], move);
+    if (!outcome.ok) {
+      throw new Error(`Illegal move ${notation}: ${outcome.error}`);
+    }
+    states.push(outcome.state);
+  }
+  return states;
+}
+
+// Split a PTN file into its tag pairs, move list and result
+export function parsePtn(text: string): PtnGame {
+  const tags: PtnTags = {};
+  const body = text
+    .replace(/\{[^}]*\}/g, " ") // Comments
+    .replace(/\[(\w+)\s+"([^"]*)"\]/g, (_, key: string, value: string) => {
+      tags[key] = value;
+      return " ";
+    });
+
+  const moves: string[] = [];
+  let result: string | undefined;
+
+  for (const token of body.split(/\s+/)) {
+    if (!token || /^\d+\.$/.test(token) || token === "--") continue;
+    if (RESULT_PATTERN.test(token)) {
+      result = token;
+      continue;
+    }
+    const notation = stripMarkers(token.replace(/^\d+\./, ""));
+    if (!parseMove(notation)) {
+      throw new Error(`Unrecognised PTN move "${token}"`);
+    }
+    moves.push(notation);
+  }
+
+  return { tags, moves, result: result ?? tags.Result };
+}
+
+// Write a complete PTN file from tag pairs and per-ply notation
+export function formatPtn(tags: PtnTags, moves: string[]): string {
+  const keys = [
+    ...TAG_ORDER.filter((key) => key in tags),
+    ...Object.keys(tags)
+      .filter((key) => !TAG_ORDER.includes(key))
+      .sort(),
+  ];
+  const header = keys.map((key) => `[${key} "${tags[key]}"]`).join("\n");
+
+  const lines: string[] = [];
+  for (let i = 0; i < moves.length; i += 2) {
+    const pair = moves.slice(i, i + 2).join(" ");
+    lines.push(`${i / 2 + 1}. ${pair}`);
+  }
+  if (tags.Result) {
+    lines.push(tags.Result);
+  }
+
+  return `${header}\n\n${lines.join("\n")}\n`;
+}
+
+// Tags recording a game's rule variants: the standard Flats and Caps
+// tags for custom reserves, and a Rules tag listing the rest
+export function formatRules(rules: RuleVariants | undefined): PtnTags {
+  const tags: PtnTags = {};
+  if (rules?.flats !== undefined) tags.Flats = String(rules.flats);
+  if (rules?.capstones !== undefined) tags.Caps = String(rules.capstones);
+
+  const keywords = RULE_FLAGS.filter((rule) => rules?.[rule]).map(
+    (rule) => RULE_KEYWORDS[rule]
+  );
+  if (keywords.length > 0) tags.Rules = keywords.join(" ");
+  return tags;
+}
+
+// Read rule variants back from PTN tags, or undefined for standard rules
+export function parseRules(tags: PtnTags): RuleVariants | undefined {
+  const rules: RuleVariants = {};
+  if (tags.Flats !== undefined) rules.flats = Number(tags.Flats);
+  if (tags.Caps !== undefined) rules.capstones = Number(tags.Caps);
+
+  for (const keyword of (tags.Rules ?? "").split(/\s+/).filter(Boolean)) {
+    const rule = RULE_FLAGS.find((flag) => RULE_KEYWORDS[flag] === keyword);
+    if (!rule) {
+      throw new Error(`Unknown rule variant "${keyword}"`);
+    }
+    rules[rule] = true;
+  }
+
+  const error = rulesError(rules);
+  if (error) {
+    throw new Error(error);
+  }
+  return Object.keys(rules).length > 0 ? rules : undefined;
+}
+
+// PTN result string for a finished game
+export function formatResult(outcome: PtnOutcome): string {
+  const { winner, winCondition } = outcome;
+  if (winner === "draw") return "1/2-1/2";
+
+  const mark =
+    winCondition === "road" ? "R" : winCondition === "flat" ? "F" : "1";
+  return winner === "white" ? `${mark}-0` : `0-${mark}`;
+}
+
+// Read a PTN result string back into a winner, or null if undecided
+export function parseResult(value: string | undefined): PtnOutcome | null {
+  switch (value) {
+    case "R-0":
+      return { winner: "white", winCondition: "road" };
+    case "0-R":
+      return { winner: "black", winCondition: "road" };
+    case "F-0":
+      return { winner: "white", winCondition: "flat" };
+    case "0-F":
+      return { winner: "black", winCondition: "flat" };
+    // A bare win doesn't say how it was won
+    case "1-0":
+      return { winner: "white" };
+    case "0-1":
+      return { winner: "black" };
+    case "1/2-1/2":
+      return { winner: "draw", winCondition: "agreement" };
+    default:
+      return null;
+  }
+}
+
+// PTN date tag, e.g. "2024.05.01"
+export function formatDate(timestamp: number): string {
+  const date = new Date(timestamp);
+  const month = String(date.getUTCMonth() + 1).padStart(2, "0");
+  const day = String(date.getUTCDate()).padStart(2, "0");
+  return `${date.getUTCFullYear()}.${month}.${day}`;
+}
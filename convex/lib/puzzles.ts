@@ -0,0 +1,156 @@
+// Puzzles mined from finished games: positions where the side to move has
+// a road the opponent cannot stop. Pure like ./tak; solutions stay on the
+// server, which checks each move as it is played.
+
+import {
+  GameState,
+  Move,
+  Player,
+  applyMove,
+  getOpponent,
+  legalMoves,
+  moveToNotation,
+  result,
+} from "./tak";
+import { parseMove, replayNotation } from "./ptn";
+import { forcedRoadWin, roadWins } from "./threats";
+
+export const MAX_PUZZLE_DEPTH = 2; // Solver moves, so roads within 3 plies
+const MAX_LOOKBACK = 4; // Winner's turns searched back from the final move
+
+export interface PuzzleCandidate {
+  ply: number; // Plies of the game played before the puzzle position
+  depth: number; // Solver moves needed for the road
+  solution: string[]; // Solver moves and the defence between them
+}
+
+// Fewest own moves the side to move needs for a forced road, or null if
+// it takes more than `maxDepth` or can't be settled before `deadline`
+export function forcedRoadDepth(
+  state: GameState,
+  maxDepth: number,
+  deadline = Infinity
+): number | null {
+  for (let depth = 1; depth <= maxDepth; depth++) {
+    if (forcedRoadWin(state, depth, deadline)) return depth;
+  }
+  return null;
+}
+
+// A forced line from the position: the solver's moves, each followed by
+// the reply that leaves the fewest roads next move. Null if the line can't
+// be worked out before `deadline`.
+export function solutionLine(
+  state: GameState,
+  depth: number,
+  deadline = Infinity
+): string[] | null {
+  const line: string[] = [];
+  let current = state;
+
+  for (let remaining = depth; remaining > 0; remaining--) {
+    // Still forced after every reply, by the definition of Tinue, so only
+    // running out of time finds no move
+    const move = forcedRoadWin(current, remaining, deadline);
+    if (!move) return null;
+    const played = applyMove(current, move);
+    if (!played.ok) break;
+    line.push(moveToNotation(move));
+    current = played.state;
+    if (result(current)) break;
+
+    const attacker = getOpponent(current.currentPlayer);
+    let best: { move: Move; state: GameState; threats: number } | null = null;
+    for (const reply of legalMoves(current)) {
+      const next = applyMove(current, reply);
+      if (!next.ok) continue;
+      const threats = result(next.state)
+        ? Infinity
+        : roadWins(next.state, attacker).length;
+      if (!best || threats < best.threats) {
+        best = { move: reply, state: next.state, threats };
+      }
+    }
+    if (!best) break;
+    line.push(moveToNotation(best.move));
+    current = best.state;
+    if (result(current)) break;
+  }
+
+  return line;
+}
+
+// The earliest of the winner's last few turns from which their road was
+// already forced, or null if the road came out of nowhere. The search goes
+// no further back once `deadline` has passed.
+export function findPuzzle(
+  initial: GameState,
+  notations: string[],
+  winner: Player,
+  deadline = Infinity
+): PuzzleCandidate | null {
+  const positions = replayNotation(initial, notations);
+  let found: { ply: number; depth: number } | null = null;
+  let turns = 0;
+
+  for (let ply = notations.length - 1; ply >= 0; ply--) {
+    if (positions[ply].currentPlayer !== winner) continue;
+    if (++turns > MAX_LOOKBACK) break;
+    const depth = forcedRoadDepth(positions[ply], MAX_PUZZLE_DEPTH, deadline);
+    if (depth === null) break;
+    found = { ply, depth };
+  }
+
+  if (!found) return null;
+  const solution = solutionLine(positions[found.ply], found.depth, deadline);
+  return solution && { ...found, solution };
+}
+
+// Whether a solver's move is right: the solution's move, or any other
+// move that completes a road at once
+export function isSolvingMove(
+  state: GameState,
+  move: Move,
+  expected: string | undefined
+): boolean {
+  if (moveToNotation(move) === expected) return true;
+  const next = applyMove(state, move);
+  if (!next.ok) return false;
+  const outcome = result(next.state);
+  return (
+    outcome?.winner === state.currentPlayer && outcome.winCondition === "road"
+  );
+}
+
+export type AttemptStatus = "solved" | "failed" | "unfinished";
+
+// How the moves played from the puzzle position stand against the
+// solution. The defence must follow it; the solver may finish with any road.
+export function checkAttempt(
+  start: GameState,
+  solution: string[],
+  moves: string[]
+): AttemptStatus {
+  let state = start;
+  for (let i = 0; i < moves.length; i++) {
+    const move = parseMove(moves[i]);
+    if (!move) return "failed";
+    const isSolverMove = i % 2 === 0;
+    if (
+      isSolverMove
+        ? !isSolvingMove(state, move, solution[i])
+        : moves[i] !== solution[i]
+    ) {
+      return "failed";
+    }
+
+    const next = applyMove(state, move);
+    if (!next.ok) return "failed";
+    state = next.state;
+    const outcome = result(state);
+    if (outcome) {
+      return outcome.winner === start.currentPlayer ? "solved" : "failed";
+    }
+  }
+  return moves.length < solution.length ? "unfinished" : "failed";
+}
@@ -0,0 +1,89 @@
+import { describe, expect, it } from "vitest";
+import {
+  GameState,
+  applyMove,
+  checkRoad,
+  createInitialState,
+  getInitialPieces,
+  result,
+} from "./tak";
+import { replayNotation } from "./ptn";
+
+// The position after a space-separated list of PTN moves
+function play(boardSize: number, ptn: string): GameState {
+  const positions = replayNotation(
+    createInitialState(boardSize),
+    ptn.split(/\s+/)
+  );
+  return positions[positions.length - 1];
+}
+
+describe("roads", () => {
+  it("gives a move that completes both roads to the mover", () => {
+    // c2< leaves white's b-file road and uncovers black's c-file road
+    const before = play(3, "c1 b1 b3 c2 c3 a3 c3- c3");
+    expect(result(before)).toBeNull();
+
+    const after = play(3, "c1 b1 b3 c2 c3 a3 c3- c3 c2<");
+    expect(checkRoad(after.board, "white")).not.toBeNull();
+    expect(checkRoad(after.board, "black")).not.toBeNull();
+    expect(result(after)).toEqual({ winner: "white", winCondition: "road" });
+  });
+
+  it("gives black a double road completed on black's move", () => {
+    // The same position with colours swapped; a1 hands black the move
+    const before = play(3, "b1 c1 a1 b3 c2 c3 a3 c3- c3");
+    expect(result(before)).toBeNull();
+
+    const after = play(3, "b1 c1 a1 b3 c2 c3 a3 c3- c3 c2<");
+    expect(after.currentPlayer).toBe("white");
+    expect(checkRoad(after.board, "white")).not.toBeNull();
+    expect(checkRoad(after.board, "black")).not.toBeNull();
+    expect(result(after)).toEqual({ winner: "black", winCondition: "road" });
+  });
+});
+
+describe("stack moves", () => {
+  it("rejects a drop pattern with an empty drop", () => {
+    const state = play(3, "c3 a1 a2 c1 a2- Sb1");
+    const outcome = applyMove(state, {
+      type: "move",
+      from: { row: 0, col: 0 },
+      to: { row: 2, col: 0 },
+      stackSize: 2,
+      dropPattern: [2, 0],
+    });
+    expect(outcome).toEqual({
+      ok: false,
+      error: "Each drop must leave at least one piece",
+    });
+    expect(() => play(3, "c3 a1 a2 c1 a2- Sb1 2a1+20")).toThrow(
+      'Unrecognised PTN move "2a1+20"'
+    );
+  });
+
+  it("reports a bad drop count before a wall in the way", () => {
+    expect(() => play(3, "c3 a1 a2 c1 a2- Sb1 a1>11")).toThrow(
+      "Illegal move a1>11: Drop pattern must sum to stack size"
+    );
+    expect(() => play(3, "c3 a1 a2 c1 a2- Sb1 2a1>11")).toThrow(
+      "Illegal move 2a1>11: Cannot move past a wall"
+    );
+  });
+});
+
+describe("opening", () => {
+  it("takes the first two stones from the opponent's reserve", () => {
+    const initial = getInitialPieces(5);
+
+    const first = play(5, "a1");
+    expect(first.board[0][0]).toEqual([{ type: "flat", player: "black" }]);
+    expect(first.blackPieces.flat).toBe(initial.flat - 1);
+    expect(first.whitePieces.flat).toBe(initial.flat);
+
+    const second = play(5, "a1 e5");
+    expect(second.board[4][4]).toEqual([{ type: "flat", player: "white" }]);
+    expect(second.whitePieces.flat).toBe(initial.flat - 1);
+    expect(second.blackPieces.flat).toBe(initial.flat - 1);
+  });
+});
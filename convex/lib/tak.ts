@@ -0,0 +1,650 @@
+// Pure Tak rules engine, shared by the Convex backend and the React client.
+// Nothing in this file may depend on Convex or React.
+
+// Types for the game
+export type PieceType = "flat" | "wall" | "capstone";
+export type Player = "white" | "black";
+
+export interface Piece {
+  type: PieceType;
+  player: Player;
+}
+
+export type Board = Piece[][][]; // 3D array: [row][col][stack]
+
+export interface Position {
+  row: number;
+  col: number;
+}
+
+export interface PieceReserve {
+  flat: number;
+  capstone: number;
+}
+
+// The parts of a game document the rules care about
+export interface GameState {
+  boardSize: number;
+  board: Board;
+  currentPlayer: Player;
+  moveCount: number;
+  whitePieces: PieceReserve;
+  blackPieces: PieceReserve;
+  komi?: number; // Stored in half-points
+  rules?: RuleVariants;
+}
+
+// Optional rule variants, chosen when a game is created
+export interface RuleVariants {
+  flats?: number; // Custom reserve sizes, replacing the board-size table
+  capstones?: number;
+  noWalls?: boolean; // Standing stones may not be placed
+  dragon?: boolean; // Capstones may not flatten walls
+  noSwap?: boolean; // The first two plies place the mover's own stone
+}
+
+export type Move =
+  | {
+      type: "place";
+      position: Position;
+      pieceType: PieceType;
+    }
+  | {
+      type: "move";
+      from: Position;
+      to: Position;
+      stackSize: number;
+      dropPattern: number[];
+    };
+
+export type MoveResult =
+  { ok: true; state: GameState } | { ok: false; error: string };
+
+export interface GameResult {
+  winner: Player | "draw";
+  winCondition: "road" | "flat";
+}
+
+const DIRECTIONS: Position[] = [
+  { row: 1, col: 0 },
+  { row: -1, col: 0 },
+  { row: 0, col: 1 },
+  { row: 0, col: -1 },
+];
+
+// Get initial piece counts based on board size (Tak rules), unless the
+// game sets its own
+export function getInitialPieces(
+  boardSize: number,
+  rules?: RuleVariants
+): PieceReserve {
+  const pieceCounts = {
+    3: { flat: 10, capstone: 0 },
+    4: { flat: 15, capstone: 0 },
+    5: { flat: 21, capstone: 1 },
+    6: { flat: 30, capstone: 1 },
+    7: { flat: 40, capstone: 2 },
+    8: { flat: 50, capstone: 2 },
+  };
+  const standard = pieceCounts[boardSize as keyof typeof pieceCounts] || {
+    flat: 21,
+    capstone: 1,
+  };
+  return {
+    flat: rules?.flats ?? standard.flat,
+    capstone: rules?.capstones ?? standard.capstone,
+  };
+}
+
+// What is wrong with a set of rule variants, or null if they are playable
+export function rulesError(rules: RuleVariants): string | null {
+  if (
+    rules.flats !== undefined &&
+    (!Number.isInteger(rules.flats) || rules.flats < 1 || rules.flats > 100)
+  ) {
+    return "Flat stones must be between 1 and 100";
+  }
+  if (
+    rules.capstones !== undefined &&
+    (!Number.isInteger(rules.capstones) ||
+      rules.capstones < 0 ||
+      rules.capstones > 10)
+  ) {
+    return "Capstones must be between 0 and 10";
+  }
+  return null;
+}
+
+// Create empty board
+export function createEmptyBoard(size: number): Board {
+  return Array(size)
+    .fill(null)
+    .map(() =>
+      Array(size)
+        .fill(null)
+        .map(() => [])
+    );
+}
+
+// Starting position for a new game
+export function createInitialState(
+  boardSize: number,
+  komi = 0,
+  rules?: RuleVariants
+): GameState {
+  const pieces = getInitialPieces(boardSize, rules);
+  return {
+    boardSize,
+    board: createEmptyBoard(boardSize),
+    currentPlayer: "white",
+    moveCount: 0,
+    whitePieces: { ...pieces },
+    blackPieces: { ...pieces },
+    komi,
+    rules,
+  };
+}
+
+// Check if position is valid
+export function isValidPosition(
+  row: number,
+  col: number,
+  size: number
+): boolean {
+  return row >= 0 && row < size && col >= 0 && col < size;
+}
+
+export function getOpponent(player: Player): Player {
+  return player === "white" ? "black" : "white";
+}
+
+// Whether the side to move places the opponent's stone: the first two
+// plies, unless the game turns the swap off
+export function placesOpponentPiece(state: GameState): boolean {
+  return state.moveCount < 2 && !state.rules?.noSwap;
+}
+
+export function getReserve(state: GameState, player: Player): PieceReserve {
+  return player === "white" ? state.whitePieces : state.blackPieces;
+}
+
+// Find a road for the player: the squares of a shortest path joining
+// opposite edges, or null if they have none
+export function checkRoad(board: Board, player: Player): Position[] | null {
+  const size = board.length;
+
+  const isRoadSquare = (row: number, col: number) => {
+    const topPiece = board[row][col][board[row][col].length - 1];
+    return !!topPiece && topPiece.player === player && topPiece.type !== "wall";
+  };
+
+  // Breadth-first search from one edge, so the first square reached on
+  // the opposite edge ends a shortest road
+  const searchAcross = (vertical: boolean): Position[] | null => {
+    const previous = new Map<string, Position | null>();
+    const queue: Position[] = [];
+    for (let i = 0; i < size; i++) {
+      const start = vertical ? { row: 0, col: i } : { row: i, col: 0 };
+      if (isRoadSquare(start.row, start.col)) {
+        previous.set(`${start.row},${start.col}`, null);
+        queue.push(start);
+      }
+    }
+
+    for (let head = 0; head < queue.length; head++) {
+      const square = queue[head];
+      if ((vertical ? square.row : square.col) === size - 1) {
+        const path: Position[] = [];
+        let step: Position | null = square;
+        while (step) {
+          path.unshift(step);
+          step = previous.get(`${step.row},${step.col}`) ?? null;
+        }
+        return path;
+      }
+
+      for (const direction of DIRECTIONS) {
+        const row = square.row + direction.row;
+        const col = square.col + direction.col;
+        const key = `${row},${col}`;
+        if (
+          isValidPosition(row, col, size) &&
+          !previous.has(key) &&
+          isRoadSquare(row, col)
+        ) {
+          previous.set(key, square);
+          queue.push({ row, col });
+        }
+      }
+    }
+    return null;
+  };
+
+  return searchAcross(false) ?? searchAcross(true);
+}
+
+// Squares whose flat tops count towards a flat win, for each player
+export function countedFlats(board: Board): Record<Player, Position[]> {
+  const counted: Record<Player, Position[]> = { white: [], black: [] };
+
+  board.forEach((cells, row) =>
+    cells.forEach((cell, col) => {
+      const topPiece = cell[cell.length - 1];
+      if (topPiece?.type === "flat") {
+        counted[topPiece.player].push({ row, col });
+      }
+    })
+  );
+
+  return counted;
+}
+
+// Count flat stones for flat win
+export function countFlatStones(board: Board): {
+  white: number;
+  black: number;
+} {
+  const counted = countedFlats(board);
+  return { white: counted.white.length, black: counted.black.length };
+}
+
+// Check if board is full
+export function isBoardFull(board: Board): boolean {
+  for (const row of board) {
+    for (const cell of row) {
+      if (cell.length === 0) {
+        return false;
+      }
+    }
+  }
+  return true;
+}
+
+// Work out whether the position is decided, or null while play continues
+export function result(state: GameState): GameResult | null {
+  const { board, whitePieces, blackPieces } = state;
+
+  // Check for road win. A move that completes roads for both players wins
+  // for the player who made it.
+  const mover = getOpponent(state.currentPlayer);
+  for (const player of [mover, state.currentPlayer]) {
+    if (checkRoad(board, player)) {
+      return { winner: player, winCondition: "road" };
+    }
+  }
+
+  if (
+    isBoardFull(board) ||
+    whitePieces.flat + whitePieces.capstone === 0 ||
+    blackPieces.flat + blackPieces.capstone === 0
+  ) {
+    // Check for flat win
+    const flatCounts = countFlatStones(board);
+    const whiteScore = flatCounts.white + (state.komi || 0) / 2;
+    const blackScore = flatCounts.black;
+
+    if (whiteScore > blackScore) {
+      return { winner: "white", winCondition: "flat" };
+    }
+    if (blackScore > whiteScore) {
+      return { winner: "black", winCondition: "flat" };
+    }
+    return { winner: "draw", winCondition: "flat" };
+  }
+
+  return null;
+}
+
+// Validate a move for the side to move and return the resulting state.
+// The input state is never modified.
+export function applyMove(state: GameState, move: Move): MoveResult {
+  const playerColor = state.currentPlayer;
+  const newBoard = JSON.parse(JSON.stringify(state.board)) as Board;
+  const newWhitePieces = { ...state.whitePieces };
+  const newBlackPieces = { ...state.blackPieces };
+
+  // First two moves: players place opponent's flat stones
+  const isOpening = placesOpponentPiece(state);
+
+  if (move.type === "place") {
+    const { row, col } = move.position;
+    const { pieceType } = move;
+
+    if (!isValidPosition(row, col, state.boardSize)) {
+      return { ok: false, error: "Invalid position" };
+    }
+
+    if (newBoard[row][col].length > 0) {
+      return { ok: false, error: "Position already occupied" };
+    }
+
+    // The opening stone belongs to the opponent and comes from their reserve
+    let actualPlayer = playerColor;
+    if (isOpening) {
+      actualPlayer = getOpponent(playerColor);
+
+      if (pieceType !== "flat") {
+        return { ok: false, error: "First move must be a flat piece" };
+      }
+    }
+
+    if (pieceType === "wall" && state.rules?.noWalls) {
+      return { ok: false, error: "Walls are not allowed in this game" };
+    }
+
+    // Check piece availability
+    const playerPieces =
+      actualPlayer === "white" ? newWhitePieces : newBlackPieces;
+    if (pieceType === "capstone" && playerPieces.capstone <= 0) {
+      return { ok: false, error: "No capstones remaining" };
+    }
+    if (pieceType !== "capstone" && playerPieces.flat <= 0) {
+      return { ok: false, error: "No flat pieces remaining" };
+    }
+
+    // Place the piece
+    newBoard[row][col].push({
+      type: pieceType,
+      player: actualPlayer,
+    });
+
+    // Update piece counts
+    if (pieceType === "capstone") {
+      playerPieces.capstone--;
+    } else {
+      playerPieces.flat--;
+    }
+  } else {
+    const { from, to, stackSize, dropPattern } = move;
+
+    if (isOpening) {
+      return { ok: false, error: "First move must be a flat piece" };
+    }
+
+    if (
+      !isValidPosition(from.row, from.col, state.boardSize) ||
+      !isValidPosition(to.row, to.col, state.boardSize)
+    ) {
+      return { ok: false, error: "Invalid position" };
+    }
+
+    const fromStack = newBoard[from.row][from.col];
+    if (fromStack.length === 0) {
+      return { ok: false, error: "No pieces to move" };
+    }
+
+    // Check if player controls the stack (top piece belongs to player)
+    const topPiece = fromStack[fromStack.length - 1];
+    if (topPiece.player !== playerColor) {
+      return { ok: false, error: "You don't control this stack" };
+    }
+
+    if (
+      !Number.isInteger(stackSize) ||
+      stackSize < 1 ||
+      stackSize > fromStack.length ||
+      stackSize > state.boardSize
+    ) {
+      return { ok: false, error: "Invalid stack size" };
+    }
+
+    // Move must be in straight line
+    const rowDiff = to.row - from.row;
+    const colDiff = to.col - from.col;
+    if (rowDiff !== 0 && colDiff !== 0) {
+      return { ok: false, error: "Move must be in straight line" };
+    }
+
+    const distance = Math.abs(rowDiff) + Math.abs(colDiff);
+    if (dropPattern.length !== distance) {
+      return { ok: false, error: "Drop pattern length must match distance" };
+    }
+
+    if (dropPattern.some((count) => !Number.isInteger(count) || count < 1)) {
+      return { ok: false, error: "Each drop must leave at least one piece" };
+    }
+
+    const totalDrops = dropPattern.reduce((sum, count) => sum + count, 0);
+    if (totalDrops !== stackSize) {
+      return { ok: false, error: "Drop pattern must sum to stack size" };
+    }
+
+    // Move pieces
+    const movingPieces = fromStack.splice(-stackSize);
+
+    const rowStep = Math.sign(rowDiff);
+    const colStep = Math.sign(colDiff);
+
+    let currentRow = from.row;
+    let currentCol = from.col;
+
+    for (let i = 0; i < dropPattern.length; i++) {
+      currentRow += rowStep;
+      currentCol += colStep;
+
+      const dropCount = dropPattern[i];
+      const targetStack = newBoard[currentRow][currentCol];
+
+      // Check for obstructions
+      if (targetStack.length > 0) {
+        const topPieceAtTarget = targetStack[targetStack.length - 1];
+
+        // Can't move onto capstones
+        if (topPieceAtTarget.type === "capstone") {
+          return { ok: false, error: "Cannot move onto capstone" };
+        }
+
+        // Can only flatten walls with capstone on final drop
+        if (topPieceAtTarget.type === "wall") {
+          if (i !== dropPattern.length - 1) {
+            return { ok: false, error: "Cannot move past a wall" };
+          }
+          if (
+            dropCount !== 1 ||
+            movingPieces[movingPieces.length - 1].type !== "capstone"
+          ) {
+            return {
+              ok: false,
+              error: "Can only flatten wall with single capstone",
+            };
+          }
+          if (state.rules?.dragon) {
+            return {
+              ok: false,
+              error: "Capstones cannot flatten walls in this game",
+            };
+          }
+          // Flatten the wall
+          targetStack[targetStack.length - 1] = {
+            ...topPieceAtTarget,
+            type: "flat",
+          };
+        }
+      }
+
+      // Drop pieces
+      for (let j = 0; j < dropCount; j++) {
+        targetStack.push(movingPieces.shift()!);
+      }
+    }
+  }
+
+  return {
+    ok: true,
+    state: {
+      ...state,
+      board: newBoard,
+      whitePieces: newWhitePieces,
+      blackPieces: newBlackPieces,
+      currentPlayer: getOpponent(playerColor),
+      moveCount: state.moveCount + 1,
+    },
+  };
+}
+
+// Play a sequence of moves from a starting position
+export function replayMoves(initial: GameState, moves: Move[]): GameState {
+  let state = initial;
+  for (const move of moves) {
+    const outcome = applyMove(state, move);
+    if (!outcome.ok) {
+      throw new Error(
+        `Cannot replay move ${state.moveCount + 1}: ${outcome.error}`
+      );
+    }
+    state = outcome.state;
+  }
+  return state;
+}
+
+// Every way to split `count` carried pieces over at most `maxSteps` squares,
+// dropping at least one piece on each square passed
+function dropPatterns(count: number, maxSteps: number): number[][] {
+  if (count === 0) return [[]];
+  if (maxSteps === 0) return [];
+
+  const patterns: number[][] = [];
+  for (let drop = 1; drop <= count; drop++) {
+    for (const rest of dropPatterns(count - drop, maxSteps - 1)) {
+      patterns.push([drop, ...rest]);
+    }
+  }
+  return patterns;
+}
+
+// List every legal move for the side to move
+export function legalMoves(state: GameState): Move[] {
+  if (result(state)) return [];
+
+  const { board, boardSize, currentPlayer } = state;
+  const isOpening = placesOpponentPiece(state);
+  const reserve = getReserve(
+    state,
+    isOpening ? getOpponent(currentPlayer) : currentPlayer
+  );
+  const moves: Move[] = [];
+
+  // Placements
+  for (let row = 0; row < boardSize; row++) {
+    for (let col = 0; col < boardSize; col++) {
+      if (board[row][col].length > 0) continue;
+      const position = { row, col };
+
+      if (reserve.flat > 0) {
+        moves.push({ type: "place", position, pieceType: "flat" });
+        if (!isOpening && !state.rules?.noWalls) {
+          moves.push({ type: "place", position, pieceType: "wall" });
+        }
+      }
+      if (reserve.capstone > 0 && !isOpening) {
+        moves.push({ type: "place", position, pieceType: "capstone" });
+      }
+    }
+  }
+
+  if (isOpening) return moves;
+
+  // Stack movements
+  for (let row = 0; row < boardSize; row++) {
+    for (let col = 0; col < boardSize; col++) {
+      const stack = board[row][col];
+      if (stack.length === 0) continue;
+
+      const topPiece = stack[stack.length - 1];
+      if (topPiece.player !== currentPlayer) continue;
+
+      const maxCarry = Math.min(stack.length, boardSize);
+
+      for (const direction of DIRECTIONS) {
+        // Walk outwards until the edge, a capstone or a wall. A lone
+        // capstone may still flatten the first wall it reaches, except in
+        // the Dragon variant.
+        let freeSteps = 0;
+        let flattenStep = false;
+        let r = row + direction.row;
+        let c = col + direction.col;
+        while (isValidPosition(r, c, boardSize)) {
+          const target = board[r][c];
+          const targetTop = target[target.length - 1];
+          if (targetTop?.type === "capstone") break;
+          if (targetTop?.type === "wall") {
+            flattenStep = topPiece.type === "capstone" && !state.rules?.dragon;
+            break;
+          }
+          freeSteps++;
+          r += direction.row;
+          c += direction.col;
+        }
+
+        for (let carry = 1; carry <= maxCarry; carry++) {
+          const patterns = dropPatterns(carry, freeSteps);
+          if (flattenStep) {
+            for (const pattern of dropPatterns(carry - 1, freeSteps)) {
+              if (pattern.length === freeSteps) {
+                patterns.push([...pattern, 1]);
+              }
+            }
+          }
+
+          for (const dropPattern of patterns) {
+            moves.push({
+              type: "move",
+              from: { row, col },
+              to: {
+                row: row + direction.row * dropPattern.length,
+                col: col + direction.col * dropPattern.length,
+              },
+              stackSize: carry,
+              dropPattern,
+            });
+          }
+        }
+      }
+    }
+  }
+
+  return moves;
+}
+
+// Every square a move changes: the placed square, or the stack's origin
+// and each square it drops on
+export function touchedSquares(move: Move): Position[] {
+  if (move.type === "place") return [move.position];
+
+  const rowStep = Math.sign(move.to.row - move.from.row);
+  const colStep = Math.sign(move.to.col - move.from.col);
+  return Array.from({ length: move.dropPattern.length + 1 }, (_, i) => ({
+    row: move.from.row + rowStep * i,
+    col: move.from.col + colStep * i,
+  }));
+}
+
+// Square name in PTN, e.g. { row: 0, col: 0 } is "a1"
+export function squareName(position: Position): string {
+  return `${String.fromCharCode(97 + position.col)}${position.row + 1}`;
+}
+
+// PTN notation for a move
+export function moveToNotation(move: Move): string {
+  if (move.type === "place") {
+    const prefix =
+      move.pieceType === "capstone"
+        ? "C"
+        : move.pieceType === "wall"
+          ? "S"
+          : "";
+    return `${prefix}${squareName(move.position)}`;
+  }
+
+  const { from, to, stackSize, dropPattern } = move;
+  const rowDiff = to.row - from.row;
+  const colDiff = to.col - from.col;
+  const direction =
+    rowDiff > 0 ? "+" : rowDiff < 0 ? "-" : colDiff > 0 ? ">" : "<";
+
+  let notation = `${stackSize > 1 ? stackSize : ""}${squareName(from)}${direction}`;
+  if (dropPattern.length > 1 || dropPattern[0] !== stackSize) {
+    notation += dropPattern.join("");
+  }
+  return notation;
+}
@@ -0,0 +1,114 @@
+// Road threat detection: "Tak" (a road next move) and "Tinue" (a road that
+// can no longer be stopped). Pure like ./tak, for the board, bots and
+// puzzle generation alike.
+
+import {
+  GameState,
+  Move,
+  Player,
+  Position,
+  applyMove,
+  getOpponent,
+  legalMoves,
+  result,
+  touchedSquares,
+} from "./tak";
+
+export const TINUE_DEPTH = 2; // Own moves the bots and the board look ahead
+
+// The searches below take an optional `deadline` (a Date.now() time). Past
+// it they give up and report no forced road, so a slow search can miss a
+// win but never claims one that isn't there.
+
+// Moves that would win `player` a road at once if it were their turn
+export function roadWins(state: GameState, player: Player): Move[] {
+  const turn = { ...state, currentPlayer: player };
+  return legalMoves(turn).filter((move) => {
+    const next = applyMove(turn, move);
+    const outcome = next.ok ? result(next.state) : null;
+    return outcome?.winner === player && outcome.winCondition === "road";
+  });
+}
+
+// Squares that complete the road in each of the given winning moves: the
+// placed square, or the squares a stack drops on
+export function threatSquares(moves: Move[]): Position[] {
+  const squares = new Map<string, Position>();
+  for (const move of moves) {
+    const touched = touchedSquares(move);
+    for (const square of move.type === "place" ? touched : touched.slice(1)) {
+      squares.set(`${square.row},${square.col}`, square);
+    }
+  }
+  return [...squares.values()];
+}
+
+// Whether every move for the side to move still leaves the opponent a road
+// within `depth` of their own moves
+export function isTinue(
+  state: GameState,
+  depth = 1,
+  deadline = Infinity
+): boolean {
+  const attacker = getOpponent(state.currentPlayer);
+  const moves = legalMoves(state);
+  if (moves.length === 0) return false;
+
+  return moves.every((move) => {
+    if (Date.now() > deadline) return false;
+    const next = applyMove(state, move);
+    if (!next.ok) return true;
+    const outcome = result(next.state);
+    if (outcome) return outcome.winner === attacker;
+    return forcedRoadWin(next.state, depth, deadline) !== null;
+  });
+}
+
+// A move for the side to move that wins by road within `depth` of its own
+// moves however the opponent defends, or null if there is none
+export function forcedRoadWin(
+  state: GameState,
+  depth: number,
+  deadline = Infinity
+): Move | null {
+  const player = state.currentPlayer;
+  const wins = roadWins(state, player);
+  if (wins.length > 0) return wins[0];
+  if (depth <= 1) return null;
+
+  for (const move of legalMoves(state)) {
+    if (Date.now() > deadline) return null;
+    const next = applyMove(state, move);
+    if (!next.ok || result(next.state)) continue;
+    if (isTinue(next.state, depth - 1, deadline)) return move;
+  }
+  return null;
+}
+
+export interface ThreatSummary {
+  tak: Player[]; // Players who could make a road with their next move
+  tinue: Player | null; // The player not to move, if their road can't be stopped
+  squares: Position[]; // Where those roads would be completed
+}
+
+// Everything the board shows about road threats in a position, looking
+// `depth` of the attacker's moves ahead for Tinue
+export function summarizeThreats(
+  state: GameState,
+  depth = 1,
+  deadline = Infinity
+): ThreatSummary {
+  const wins = {
+    white: roadWins(state, "white"),
+    black: roadWins(state, "black"),
+  };
+  return {
+    tak: (["white", "black"] as const).filter(
+      (player) => wins[player].length > 0
+    ),
+    tinue: isTinue(state, depth, deadline)
+      ? getOpponent(state.currentPlayer)
+      : null,
+    squares: threatSquares([...wins.white, ...wins.black]),
+  };
+}
@@ -0,0 +1,232 @@
+import { query, mutation, QueryCtx } from "./_generated/server";
+import { v } from "convex/values";
+import { getAuthUserId } from "@convex-dev/auth/server";
+import { Id } from "./_generated/dataModel";
+import { getPlayerSummary, playerSummary } from "./profiles";
+
+const MAX_MESSAGE_LENGTH = 300;
+const RATE_LIMIT_COUNT = 5;
+const RATE_LIMIT_WINDOW = 10 * 1000;
+const HISTORY_LIMIT = 50;
+
+const channelValidator = v.union(
+  v.literal("lobby"),
+  v.literal("players"),
+  v.literal("spectators")
+);
+
+type Channel = "lobby" | "players" | "spectators";
+
+// Check that the user may read or write a channel; throws if not. Returns
+// false for a channel that is hidden from the user for now, so that reading
+// it gives no messages rather than an error.
+async function checkChannelAccess(
+  ctx: QueryCtx,
+  userId: Id<"users">,
+  gameId: Id<"games"> | undefined,
+  channel: Channel,
+  access: "read" | "write"
+) {
+  if (channel === "lobby") {
+    if (gameId) {
+      throw new Error("Lobby chat is not tied to a game");
+    }
+    return true;
+  }
+
+  if (!gameId) {
+    throw new Error("Game chat needs a game");
+  }
+  const game = await ctx.db.get(gameId);
+  if (!game) {
+    throw new Error("Game not found");
+  }
+
+  const isPlayer = game.whitePlayer === userId || game.blackPlayer === userId;
+  if (channel === "players") {
+    // Spectators can follow the players' conversation but not join it
+    if (access === "write" && !isPlayer) {
+      throw new Error("Only players can write in the players' chat");
+    }
+  } else if (isPlayer && access === "write") {
+    throw new Error("Spectator chat is closed to players");
+  } else if (isPlayer && game.status === "active") {
+    // Players cannot see spectator chat until the game is over
+    return false;
+  }
+  return true;
+}
+
+async function getMutedUserIds(ctx: QueryCtx, userId: Id<"users">) {
+  const mutes = await ctx.db
+    .query("mutes")
+    .withIndex("by_user", (q) => q.eq("userId", userId))
+    .collect();
+  return new Set(mutes.map((mute) => mute.mutedUserId));
+}
+
+// Post a message to the lobby or a game channel
+export const sendMessage = mutation({
+  args: {
+    gameId: v.optional(v.id("games")),
+    channel: channelValidator,
+    body: v.string(),
+  },
+  returns: v.id("messages"),
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      throw new Error("Not authenticated");
+    }
+
+    const body = args.body.trim();
+    if (body.length === 0) {
+      throw new Error("Message is empty");
+    }
+    if (body.length > MAX_MESSAGE_LENGTH) {
+      throw new Error(
+        `Messages must be at most ${MAX_MESSAGE_LENGTH} characters`
+      );
+    }
+
+    await checkChannelAccess(ctx, userId, args.gameId, args.channel, "write");
+
+    const now = Date.now();
+    const recent = await ctx.db
+      .query("messages")
+      .withIndex("by_user", (q) =>
+        q.eq("userId", userId).gt("createdAt", now - RATE_LIMIT_WINDOW)
+      )
+      .take(RATE_LIMIT_COUNT);
+    if (recent.length >= RATE_LIMIT_COUNT) {
+      throw new Error("You are sending messages too quickly");
+    }
+
+    return await ctx.db.insert("messages", {
+      gameId: args.gameId,
+      channel: args.channel,
+      userId,
+      body,
+      createdAt: now,
+    });
+  },
+});
+
+// Latest messages in a channel, oldest first, without muted senders
+export const listMessages = query({
+  args: {
+    gameId: v.optional(v.id("games")),
+    channel: channelValidator,
+  },
+  returns: v.array(
+    v.object({
+      _id: v.id("messages"),
+      body: v.string(),
+      createdAt: v.number(),
+      sender: playerSummary,
+    })
+  ),
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      return [];
+    }
+
+    const visible = await checkChannelAccess(
+      ctx,
+      userId,
+      args.gameId,
+      args.channel,
+      "read"
+    );
+    if (!visible) {
+      return [];
+    }
+
+    const muted = await getMutedUserIds(ctx, userId);
+    const messages = await ctx.db
+      .query("messages")
+      .withIndex("by_channel", (q) =>
+        q.eq("gameId", args.gameId).eq("channel", args.channel)
+      )
+      .order("desc")
+      .take(HISTORY_LIMIT);
+
+    return await Promise.all(
+      messages
+        .filter((message) => !muted.has(message.userId))
+        .reverse()
+        .map(async (message) => ({
+          _id: message._id,
+          body: message.body,
+          createdAt: message.createdAt,
+          sender: await getPlayerSummary(ctx, message.userId),
+        }))
+    );
+  },
+});
+
+// Users the current user has muted
+export const listMutedUsers = query({
+  args: {},
+  returns: v.array(playerSummary),
+  handler: async (ctx) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      return [];
+    }
+
+    const muted = await getMutedUserIds(ctx, userId);
+    return await Promise.all(
+      [...muted].map((mutedUserId) => getPlayerSummary(ctx, mutedUserId))
+    );
+  },
+});
+
+// Hide another user's messages from the current user
+export const muteUser = mutation({
+  args: { userId: v.id("users") },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      throw new Error("Not authenticated");
+    }
+    if (userId === args.userId) {
+      throw new Error("You cannot mute yourself");
+    }
+
+    const existing = await ctx.db
+      .query("mutes")
+      .withIndex("by_user", (q) =>
+        q.eq("userId", userId).eq("mutedUserId", args.userId)
+      )
+      .unique();
+    if (!existing) {
+      await ctx.db.insert("mutes", { userId, mutedUserId: args.userId });
+    }
+    return null;
+  },
+});
+
+export const unmuteUser = mutation({
+  args: { userId: v.id("users") },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      throw new Error("Not authenticated");
+    }
+
+    const existing = await ctx.db
+      .query("mutes")
+      .withIndex("by_user", (q) =>
+        q.eq("userId", userId).eq("mutedUserId", args.userId)
+      )
+      .unique();
+    if (existing) {
+      await ctx.db.delete(existing._id);
+    }
+    return null;
+  },
+});
@@ -0,0 +1,165 @@
+import { query, internalMutation, MutationCtx } from "./_generated/server";
+import { v } from "convex/values";
+import { Doc } from "./_generated/dataModel";
+import { internal } from "./_generated/api";
+import { applyMove, createInitialState } from "./lib/tak";
+import { parseMove, replayNotation } from "./lib/ptn";
+import {
+  OPENING_PLIES,
+  canonicalMove,
+  canonicalPosition,
+  orientMove,
+} from "./lib/openings";
+
+const BACKFILL_BATCH = 20;
+
+// Add a finished game's opening to the explorer. Games with rule variants
+// and imported games are marked but left out, since their positions and
+// results don't compare with standard rated play.
+export async function indexOpening(
+  ctx: MutationCtx,
+  game: Doc<"games">,
+  winner: "white" | "black" | "draw"
+) {
+  await ctx.db.patch(game._id, { openingIndexedAt: Date.now() });
+  if (game.rules || game.ptnTags) return;
+
+  const moves = await ctx.db
+    .query("moves")
+    .withIndex("by_game", (q) => q.eq("gameId", game._id))
+    .order("asc")
+    .take(OPENING_PLIES);
+
+  // A game that returns to a position only counts once for it
+  const seen = new Set<string>();
+  let state = createInitialState(game.boardSize, game.komi);
+  for (const { notation } of moves) {
+    const move = parseMove(notation);
+    if (!move) return;
+    const { key, symmetries } = canonicalPosition(state);
+    const canonical = canonicalMove(state, symmetries, move);
+    const next = applyMove(state, move);
+    if (!next.ok) return;
+    state = next.state;
+
+    if (seen.has(`${key} ${canonical}`)) continue;
+    seen.add(`${key} ${canonical}`);
+
+    const row = await ctx.db
+      .query("openingMoves")
+      .withIndex("by_position_and_move", (q) =>
+        q
+          .eq("boardSize", game.boardSize)
+          .eq("position", key)
+          .eq("move", canonical)
+      )
+      .unique();
+    const counts = {
+      games: (row?.games ?? 0) + 1,
+      whiteWins: (row?.whiteWins ?? 0) + (winner === "white" ? 1 : 0),
+      blackWins: (row?.blackWins ?? 0) + (winner === "black" ? 1 : 0),
+      draws: (row?.draws ?? 0) + (winner === "draw" ? 1 : 0),
+    };
+    if (row) {
+      await ctx.db.patch(row._id, counts);
+    } else {
+      await ctx.db.insert("openingMoves", {
+        boardSize: game.boardSize,
+        position: key,
+        move: canonical,
+        ...counts,
+      });
+    }
+  }
+}
+
+// Moves played from the position after `moves`, with how those games
+// ended, most played first. Null once the line is deeper than the explorer.
+export const getOpeningMoves = query({
+  args: {
+    boardSize: v.number(),
+    moves: v.array(v.string()),
+  },
+  returns: v.union(
+    v.array(
+      v.object({
+        move: v.string(),
+        games: v.number(),
+        whiteWins: v.number(),
+        blackWins: v.number(),
+        draws: v.number(),
+      })
+    ),
+    v.null()
+  ),
+  handler: async (ctx, args) => {
+    if (
+      !Number.isInteger(args.boardSize) ||
+      args.boardSize < 3 ||
+      args.boardSize > 8
+    ) {
+      throw new Error("Board size must be between 3 and 8");
+    }
+    if (args.moves.length >= OPENING_PLIES) {
+      return null;
+    }
+
+    // A line that doesn't replay can't have been reached by any game
+    let positions;
+    try {
+      positions = replayNotation(
+        createInitialState(args.boardSize),
+        args.moves
+      );
+    } catch {
+      return [];
+    }
+    const { key, symmetries } = canonicalPosition(
+      positions[positions.length - 1]
+    );
+    const rows = await ctx.db
+      .query("openingMoves")
+      .withIndex("by_position_and_move", (q) =>
+        q.eq("boardSize", args.boardSize).eq("position", key)
+      )
+      .collect();
+
+    return rows
+      .map((row) => ({
+        move: orientMove(row.move, symmetries[0], args.boardSize) ?? row.move,
+        games: row.games,
+        whiteWins: row.whiteWins,
+        blackWins: row.blackWins,
+        draws: row.draws,
+      }))
+      .sort((a, b) => b.games - a.games);
+  },
+});
+
+// One-off job for games that finished before the explorer existed:
+// npx convex run openings:backfillOpenings
+export const backfillOpenings = internalMutation({
+  args: {},
+  returns: v.null(),
+  handler: async (ctx) => {
+    const games = await ctx.db
+      .query("games")
+      .withIndex("by_status_and_opening_indexed", (q) =>
+        q.eq("status", "finished").eq("openingIndexedAt", undefined)
+      )
+      .take(BACKFILL_BATCH);
+
+    for (const game of games) {
+      if (game.winner) {
+        await indexOpening(ctx, game, game.winner);
+      } else {
+        await ctx.db.patch(game._id, { openingIndexedAt: Date.now() });
+      }
+    }
+
+    if (games.length === BACKFILL_BATCH) {
+      await ctx.scheduler.runAfter(0, internal.openings.backfillOpenings, {});
+    }
+    return null;
+  },
+});
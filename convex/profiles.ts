@@ -0,0 +1,218 @@
+import { query, mutation, QueryCtx } from "./_generated/server";
+import { v } from "convex/values";
+import { getAuthUserId } from "@convex-dev/auth/server";
+import { Doc, Id } from "./_generated/dataModel";
+import { squareName } from "./lib/tak";
+
+const DEFAULT_AVATAR_COLOR = "#6b7280";
+const MAX_DISPLAY_NAME = 30;
+const MAX_BIO = 500;
+
+// Name and avatar shown wherever a player appears
+export const playerSummary = v.object({
+  userId: v.id("users"),
+  displayName: v.string(),
+  avatarColor: v.string(),
+});
+
+const resultCounts = {
+  wins: v.number(),
+  losses: v.number(),
+  draws: v.number(),
+};
+
+export async function getProfileDoc(ctx: QueryCtx, userId: Id<"users">) {
+  return await ctx.db
+    .query("profiles")
+    .withIndex("by_user", (q) => q.eq("userId", userId))
+    .unique();
+}
+
+// Name from the auth account, for players without a profile. Never the
+// email address, since other players see this name.
+async function getAccountName(ctx: QueryCtx, userId: Id<"users">) {
+  const user = await ctx.db.get(userId);
+  return user?.name ?? "Anonymous";
+}
+
+export async function getDisplayName(ctx: QueryCtx, userId: Id<"users">) {
+  const profile = await getProfileDoc(ctx, userId);
+  return profile?.displayName ?? (await getAccountName(ctx, userId));
+}
+
+export async function getPlayerSummary(ctx: QueryCtx, userId: Id<"users">) {
+  const profile = await getProfileDoc(ctx, userId);
+  return {
+    userId,
+    displayName: profile?.displayName ?? (await getAccountName(ctx, userId)),
+    avatarColor: profile?.avatarColor ?? DEFAULT_AVATAR_COLOR,
+  };
+}
+
+// Tally wins, losses and draws from one player's finished games
+function tallyResults(games: Doc<"games">[], userId: Id<"users">) {
+  const empty = () => ({ wins: 0, losses: 0, draws: 0 });
+  const total = empty();
+  const byBoardSize = new Map<number, ReturnType<typeof empty>>();
+  const byWinCondition = new Map<string, ReturnType<typeof empty>>();
+
+  for (const game of games) {
+    if (game.status !== "finished" || !game.winner || !game.blackPlayer) {
+      continue;
+    }
+    const color = game.whitePlayer === userId ? "white" : "black";
+    const key =
+      game.winner === "draw"
+        ? "draws"
+        : game.winner === color
+          ? "wins"
+          : "losses";
+
+    const sizeCounts = byBoardSize.get(game.boardSize) ?? empty();
+    byBoardSize.set(game.boardSize, sizeCounts);
+    const condition = game.winCondition ?? "other";
+    const conditionCounts = byWinCondition.get(condition) ?? empty();
+    byWinCondition.set(condition, conditionCounts);
+
+    total[key]++;
+    sizeCounts[key]++;
+    conditionCounts[key]++;
+  }
+
+  return {
+    total,
+    byBoardSize: [...byBoardSize.entries()]
+      .sort(([a], [b]) => a - b)
+      .map(([boardSize, counts]) => ({ boardSize, ...counts })),
+    byWinCondition: [...byWinCondition.entries()].map(
+      ([winCondition, counts]) => ({ winCondition, ...counts })
+    ),
+  };
+}
+
+// A player's profile and game statistics
+export const getProfile = query({
+  args: { userId: v.optional(v.id("users")) },
+  returns: v.union(
+    v.object({
+      userId: v.id("users"),
+      displayName: v.string(),
+      avatarColor: v.string(),
+      country: v.optional(v.string()),
+      bio: v.optional(v.string()),
+      isOwnProfile: v.boolean(),
+      stats: v.object({
+        total: v.object(resultCounts),
+        byBoardSize: v.array(
+          v.object({ boardSize: v.number(), ...resultCounts })
+        ),
+        byWinCondition: v.array(
+          v.object({ winCondition: v.string(), ...resultCounts })
+        ),
+        favouriteOpenings: v.array(
+          v.object({ square: v.string(), count: v.number() })
+        ),
+      }),
+    }),
+    v.null()
+  ),
+  handler: async (ctx, args) => {
+    const currentUserId = await getAuthUserId(ctx);
+    const userId = args.userId ?? currentUserId;
+    if (!userId) {
+      return null;
+    }
+
+    const profile = await getProfileDoc(ctx, userId);
+    const summary = await getPlayerSummary(ctx, userId);
+
+    const whiteGames = await ctx.db
+      .query("games")
+      .withIndex("by_white_player", (q) => q.eq("whitePlayer", userId))
+      .order("desc")
+      .take(200);
+    const blackGames = await ctx.db
+      .query("games")
+      .withIndex("by_black_player", (q) => q.eq("blackPlayer", userId))
+      .order("desc")
+      .take(200);
+    const games = [...whiteGames, ...blackGames];
+
+    // Favourite opening squares: where this player put their first stone
+    const openingCounts = new Map<string, number>();
+    for (const game of games) {
+      if (game.moveCount === 0 || !game.blackPlayer) continue;
+      const moveNumber = game.whitePlayer === userId ? 1 : 2;
+      const firstMove = await ctx.db
+        .query("moves")
+        .withIndex("by_game", (q) =>
+          q.eq("gameId", game._id).eq("moveNumber", moveNumber)
+        )
+        .unique();
+      if (firstMove?.position) {
+        const square = squareName(firstMove.position);
+        openingCounts.set(square, (openingCounts.get(square) ?? 0) + 1);
+      }
+    }
+
+    return {
+      ...summary,
+      country: profile?.country,
+      bio: profile?.bio,
+      isOwnProfile: userId === currentUserId,
+      stats: {
+        ...tallyResults(games, userId),
+        favouriteOpenings: [...openingCounts.entries()]
+          .sort(([, a], [, b]) => b - a)
+          .slice(0, 5)
+          .map(([square, count]) => ({ square, count })),
+      },
+    };
+  },
+});
+
+// Create or edit the current user's profile
+export const updateProfile = mutation({
+  args: {
+    displayName: v.string(),
+    avatarColor: v.string(),
+    country: v.optional(v.string()),
+    bio: v.optional(v.string()),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      throw new Error("Not authenticated");
+    }
+
+    const displayName = args.displayName.trim();
+    if (displayName.length === 0 || displayName.length > MAX_DISPLAY_NAME) {
+      throw new Error(
+        `Display name must be 1 to ${MAX_DISPLAY_NAME} characters`
+      );
+    }
+
+    if (!/^#[0-9a-fA-F]{6}$/.test(args.avatarColor)) {
+      throw new Error("Avatar color must be a hex color like #3b82f6");
+    }
+
+    if (args.bio && args.bio.length > MAX_BIO) {
+      throw new Error(`Bio must be at most ${MAX_BIO} characters`);
+    }
+
+    const fields = {
+      displayName,
+      avatarColor: args.avatarColor,
+      country: args.country?.trim() || undefined,
+      bio: args.bio?.trim() || undefined,
+    };
+
+    const existing = await getProfileDoc(ctx, userId);
+    if (existing) {
+      await ctx.db.patch(existing._id, fields);
+    } else {
+      await ctx.db.insert("profiles", { userId, ...fields });
+    }
+  },
+});
@@ -0,0 +1,154 @@
+import { query, mutation } from "./_generated/server";
+import { v } from "convex/values";
+import { getAuthUserId } from "@convex-dev/auth/server";
+import { getDisplayName } from "./profiles";
+import {
+  GameState,
+  applyMove,
+  createInitialState,
+  moveToNotation,
+  result,
+} from "./lib/tak";
+import {
+  PtnTags,
+  formatDate,
+  formatPtn,
+  formatResult,
+  formatRules,
+  parseMove,
+  parsePtn,
+  parseResult,
+  parseRules,
+} from "./lib/ptn";
+
+// Export a game as a PTN file
+export const exportGame = query({
+  args: { gameId: v.id("games") },
+  returns: v.string(),
+  handler: async (ctx, args) => {
+    const game = await ctx.db.get(args.gameId);
+    if (!game) {
+      throw new Error("Game not found");
+    }
+
+    const moves = await ctx.db
+      .query("moves")
+      .withIndex("by_game", (q) => q.eq("gameId", args.gameId))
+      .order("asc")
+      .collect();
+
+    const tags: PtnTags = {
+      Player1: game.whitePlayer
+        ? await getDisplayName(ctx, game.whitePlayer)
+        : "?",
+      Player2: game.blackPlayer
+        ? await getDisplayName(ctx, game.blackPlayer)
+        : "?",
+      Date: formatDate(game.createdAt),
+      // Imported games keep their original names, date and event tags
+      ...game.ptnTags,
+      Size: String(game.boardSize),
+      Komi: String((game.komi || 0) / 2),
+      ...formatRules(game.rules),
+    };
+    if (game.winner) {
+      tags.Result = formatResult({
+        winner: game.winner,
+        winCondition: game.winCondition,
+      });
+    } else {
+      delete tags.Result;
+    }
+
+    return formatPtn(
+      tags,
+      moves.map((move) => move.notation)
+    );
+  },
+});
+
+// Import a PTN file as a finished or analysis game
+export const importGame = mutation({
+  args: { ptn: v.string() },
+  returns: v.id("games"),
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      throw new Error("Not authenticated");
+    }
+
+    const parsed = parsePtn(args.ptn);
+    const boardSize = Number(parsed.tags.Size);
+    if (!Number.isInteger(boardSize) || boardSize < 3 || boardSize > 8) {
+      throw new Error("PTN must have a Size tag between 3 and 8");
+    }
+
+    const komi = Number(parsed.tags.Komi || 0);
+    if (!Number.isFinite(komi) || komi < 0) {
+      throw new Error("Invalid Komi tag");
+    }
+
+    const rules = parseRules(parsed.tags);
+
+    // Replay every ply through the rules; komi is stored as half-points
+    let state: GameState = createInitialState(boardSize, komi * 2, rules);
+    const replayed = [];
+    for (const notation of parsed.moves) {
+      if (result(state)) {
+        throw new Error(`Moves continue after the game ended at ${notation}`);
+      }
+      const move = parseMove(notation)!;
+      const outcome = applyMove(state, move);
+      if (!outcome.ok) {
+        throw new Error(`Illegal move ${notation}: ${outcome.error}`);
+      }
+      replayed.push({ move, player: state.currentPlayer });
+      state = outcome.state;
+    }
+
+    // The position decides the result where it can, otherwise trust the tag
+    const outcome = result(state) ?? parseResult(parsed.result);
+    const {
+      Size: _size,
+      Komi: _komi,
+      Flats: _flats,
+      Caps: _caps,
+      Rules: _rules,
+      Result: _result,
+      ...ptnTags
+    } = parsed.tags;
+
+    const createdAt = Date.now();
+    const gameId = await ctx.db.insert("games", {
+      boardSize,
+      status: outcome ? "finished" : "analysis",
+      createdAt,
+      importedBy: userId,
+      currentPlayer: state.currentPlayer,
+      moveCount: state.moveCount,
+      board: state.board,
+      whitePieces: state.whitePieces,
+      blackPieces: state.blackPieces,
+      winner: outcome?.winner,
+      winCondition: outcome?.winCondition,
+      komi: state.komi,
+      rules,
+      isRanked: false,
+      ptnTags,
+    });
+
+    for (let i = 0; i < replayed.length; i++) {
+      const { move, player } = replayed[i];
+      await ctx.db.insert("moves", {
+        gameId,
+        moveNumber: i + 1,
+        player,
+        ...move,
+        notation: moveToNotation(move),
+        createdAt,
+      });
+    }
+
+    return gameId;
+  },
+});
@@ -0,0 +1,305 @@
+import {
+  query,
+  mutation,
+  internalAction,
+  internalMutation,
+  internalQuery,
+} from "./_generated/server";
+import { v } from "convex/values";
+import { getAuthUserId } from "@convex-dev/auth/server";
+import { internal } from "./_generated/api";
+import { createInitialState } from "./lib/tak";
+import { replayNotation } from "./lib/ptn";
+import { DEFAULT_RATING, updateRating } from "./lib/glicko2";
+import { PuzzleCandidate, checkAttempt, findPuzzle } from "./lib/puzzles";
+import { rulesValidator } from "./games";
+import { getRatingDoc } from "./ratings";
+
+const MINE_BATCH = 10; // Games looked at per run of the miner
+const MINE_TIME_LIMIT = 20 * 1000; // Search time per game, in milliseconds
+const NEXT_PUZZLE_SCAN = 100;
+const DEPTH_RATING_STEP = 300; // Starting difficulty added per solver move
+
+// The easiest puzzle the current user has not tried yet
+export const getNextPuzzle = query({
+  args: {},
+  returns: v.union(v.id("puzzles"), v.null()),
+  handler: async (ctx) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      return null;
+    }
+
+    const puzzles = await ctx.db
+      .query("puzzles")
+      .withIndex("by_rating")
+      .order("asc")
+      .take(NEXT_PUZZLE_SCAN);
+    for (const puzzle of puzzles) {
+      const attempt = await ctx.db
+        .query("puzzleAttempts")
+        .withIndex("by_user_and_puzzle", (q) =>
+          q.eq("userId", userId).eq("puzzleId", puzzle._id)
+        )
+        .first();
+      if (!attempt) {
+        return puzzle._id;
+      }
+    }
+    return null;
+  },
+});
+
+// A puzzle to solve. The solution is only revealed once an attempt is over.
+export const getPuzzle = query({
+  args: { puzzleId: v.id("puzzles") },
+  returns: v.union(
+    v.object({
+      _id: v.id("puzzles"),
+      gameId: v.id("games"),
+      boardSize: v.number(),
+      komi: v.optional(v.number()),
+      rules: v.optional(rulesValidator),
+      setup: v.array(v.string()),
+      depth: v.number(),
+      rating: v.number(),
+      attempts: v.number(),
+      solves: v.number(),
+    }),
+    v.null()
+  ),
+  handler: async (ctx, args) => {
+    const puzzle = await ctx.db.get(args.puzzleId);
+    if (!puzzle) {
+      return null;
+    }
+
+    return {
+      _id: puzzle._id,
+      gameId: puzzle.gameId,
+      boardSize: puzzle.boardSize,
+      komi: puzzle.komi,
+      rules: puzzle.rules,
+      setup: puzzle.setup,
+      depth: puzzle.depth,
+      rating: puzzle.rating,
+      attempts: puzzle.attempts,
+      solves: puzzle.solves,
+    };
+  },
+});
+
+// Check the current user's next move in a puzzle. `moves` is the attempt
+// so far (the defence included) ending with the new move. A right move
+// that doesn't finish the road gets the defence's reply; a finished
+// attempt is recorded and gets the solution. Only a user's first attempt
+// moves the puzzle's difficulty.
+export const playPuzzleMove = mutation({
+  args: {
+    puzzleId: v.id("puzzles"),
+    moves: v.array(v.string()),
+  },
+  returns: v.object({
+    correct: v.boolean(),
+    reply: v.optional(v.string()), // The defence, while the puzzle goes on
+    solution: v.optional(v.array(v.string())), // Once the attempt is over
+  }),
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      throw new Error("Not authenticated");
+    }
+
+    const puzzle = await ctx.db.get(args.puzzleId);
+    if (!puzzle) {
+      throw new Error("Puzzle not found");
+    }
+    if (
+      args.moves.length % 2 === 0 ||
+      args.moves.length > puzzle.solution.length
+    ) {
+      throw new Error("It is not the solver's move");
+    }
+
+    const positions = replayNotation(
+      createInitialState(puzzle.boardSize, puzzle.komi, puzzle.rules),
+      puzzle.setup
+    );
+    const start = positions[positions.length - 1];
+    if (
+      checkAttempt(start, puzzle.solution, args.moves.slice(0, -1)) !==
+      "unfinished"
+    ) {
+      throw new Error("These moves don't follow the puzzle");
+    }
+
+    const status = checkAttempt(start, puzzle.solution, args.moves);
+    if (status === "unfinished") {
+      return { correct: true, reply: puzzle.solution[args.moves.length] };
+    }
+
+    const solved = status === "solved";
+    const previous = await ctx.db
+      .query("puzzleAttempts")
+      .withIndex("by_user_and_puzzle", (q) =>
+        q.eq("userId", userId).eq("puzzleId", args.puzzleId)
+      )
+      .first();
+    const now = Date.now();
+    await ctx.db.insert("puzzleAttempts", {
+      puzzleId: args.puzzleId,
+      userId,
+      moves: args.moves,
+      solved,
+      createdAt: now,
+    });
+
+    if (!previous) {
+      // Rated against the solver's playing strength on this board size
+      const solverRating =
+        (await getRatingDoc(ctx, userId, puzzle.boardSize)) ?? DEFAULT_RATING;
+      const updated = updateRating(puzzle, solverRating, solved ? 0 : 1);
+      await ctx.db.patch(args.puzzleId, {
+        ...updated,
+        attempts: puzzle.attempts + 1,
+        solves: puzzle.solves + (solved ? 1 : 0),
+      });
+    }
+
+    return { correct: solved, solution: puzzle.solution };
+  },
+});
+
+// Finished games the miner has not looked at yet, with their moves
+export const getUnminedGames = internalQuery({
+  args: { limit: v.number() },
+  returns: v.array(
+    v.object({
+      gameId: v.id("games"),
+      boardSize: v.number(),
+      komi: v.optional(v.number()),
+      rules: v.optional(rulesValidator),
+      winner: v.optional(
+        v.union(v.literal("white"), v.literal("black"), v.literal("draw"))
+      ),
+      isRoadWin: v.boolean(),
+      moves: v.array(v.string()),
+    })
+  ),
+  handler: async (ctx, args) => {
+    const games = await ctx.db
+      .query("games")
+      .withIndex("by_status_and_mined", (q) =>
+        q.eq("status", "finished").eq("minedAt", undefined)
+      )
+      .take(args.limit);
+
+    return await Promise.all(
+      games.map(async (game) => {
+        const moves = await ctx.db
+          .query("moves")
+          .withIndex("by_game", (q) => q.eq("gameId", game._id))
+          .order("asc")
+          .collect();
+        return {
+          gameId: game._id,
+          boardSize: game.boardSize,
+          komi: game.komi,
+          rules: game.rules,
+          winner: game.winner,
+          isRoadWin: game.winCondition === "road",
+          moves: moves.map((move) => move.notation),
+        };
+      })
+    );
+  },
+});
+
+// Store what the miner found in a game, and mark the game as mined
+export const savePuzzle = internalMutation({
+  args: {
+    gameId: v.id("games"),
+    puzzle: v.optional(
+      v.object({
+        setup: v.array(v.string()),
+        solution: v.array(v.string()),
+        depth: v.number(),
+      })
+    ),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const game = await ctx.db.get(args.gameId);
+    if (!game || game.minedAt !== undefined) {
+      return null;
+    }
+
+    const now = Date.now();
+    await ctx.db.patch(args.gameId, { minedAt: now });
+    if (args.puzzle) {
+      await ctx.db.insert("puzzles", {
+        gameId: args.gameId,
+        boardSize: game.boardSize,
+        komi: game.komi,
+        rules: game.rules,
+        ...args.puzzle,
+        ...DEFAULT_RATING,
+        rating:
+          DEFAULT_RATING.rating + DEPTH_RATING_STEP * (args.puzzle.depth - 2),
+        attempts: 0,
+        solves: 0,
+        createdAt: now,
+      });
+    }
+    return null;
+  },
+});
+
+// Batch job: look for forced roads in finished road wins, a few games at a
+// time, until every finished game has been mined
+export const minePuzzles = internalAction({
+  args: {},
+  returns: v.null(),
+  handler: async (ctx) => {
+    const games = await ctx.runQuery(internal.puzzles.getUnminedGames, {
+      limit: MINE_BATCH,
+    });
+
+    for (const game of games) {
+      let found: PuzzleCandidate | null = null;
+      if (
+        game.isRoadWin &&
+        (game.winner === "white" || game.winner === "black")
+      ) {
+        // Each game gets its own search budget, so a long game on a big
+        // board is still marked as mined within the action's time limit
+        try {
+          found = findPuzzle(
+            createInitialState(game.boardSize, game.komi, game.rules),
+            game.moves,
+            game.winner,
+            Date.now() + MINE_TIME_LIMIT
+          );
+        } catch (error) {
+          // A game that no longer replays is skipped, not retried forever
+          console.error(`Could not mine game ${game.gameId}:`, error);
+        }
+      }
+      await ctx.runMutation(internal.puzzles.savePuzzle, {
+        gameId: game.gameId,
+        puzzle: found
+          ? {
+              setup: game.moves.slice(0, found.ply),
+              solution: found.solution,
+              depth: found.depth,
+            }
+          : undefined,
+      });
+    }
+
+    if (games.length === MINE_BATCH) {
+      await ctx.scheduler.runAfter(0, internal.puzzles.minePuzzles, {});
+    }
+    return null;
+  },
+});
@@ -0,0 +1,170 @@
+import { query, MutationCtx } from "./_generated/server";
+import { v } from "convex/values";
+import { getAuthUserId } from "@convex-dev/auth/server";
+import { Doc, Id } from "./_generated/dataModel";
+import { DEFAULT_RATING, Rating, updateRating } from "./lib/glicko2";
+
+export async function getRatingDoc(
+  ctx: MutationCtx,
+  userId: Id<"users">,
+  boardSize: number
+) {
+  return await ctx.db
+    .query("ratings")
+    .withIndex("by_user_and_size", (q) =>
+      q.eq("userId", userId).eq("boardSize", boardSize)
+    )
+    .unique();
+}
+
+// Update both players' ratings for a finished ranked game
+export async function updateRatings(
+  ctx: MutationCtx,
+  game: Doc<"games">,
+  winner: "white" | "black" | "draw"
+) {
+  if (!game.whitePlayer || !game.blackPlayer) return;
+
+  const players = [
+    { userId: game.whitePlayer, score: 1 },
+    { userId: game.blackPlayer, score: 0 },
+  ];
+  if (winner === "draw") {
+    players[0].score = players[1].score = 0.5;
+  } else if (winner === "black") {
+    players[0].score = 0;
+    players[1].score = 1;
+  }
+
+  const docs = await Promise.all(
+    players.map((player) => getRatingDoc(ctx, player.userId, game.boardSize))
+  );
+  const current: Rating[] = docs.map((doc) => doc ?? DEFAULT_RATING);
+
+  const now = Date.now();
+  for (let i = 0; i < players.length; i++) {
+    const { userId, score } = players[i];
+    const updated = updateRating(current[i], current[1 - i], score);
+    const doc = docs[i];
+
+    if (doc) {
+      await ctx.db.patch(doc._id, {
+        ...updated,
+        gamesPlayed: doc.gamesPlayed + 1,
+        updatedAt: now,
+      });
+    } else {
+      await ctx.db.insert("ratings", {
+        userId,
+        boardSize: game.boardSize,
+        ...updated,
+        gamesPlayed: 1,
+        updatedAt: now,
+      });
+    }
+
+    await ctx.db.insert("ratingHistory", {
+      userId,
+      boardSize: game.boardSize,
+      gameId: game._id,
+      rating: updated.rating,
+      deviation: updated.deviation,
+      change: updated.rating - current[i].rating,
+      createdAt: now,
+    });
+  }
+}
+
+// Ratings for a player on every board size they have played ranked
+export const getUserRatings = query({
+  args: { userId: v.optional(v.id("users")) },
+  returns: v.array(
+    v.object({
+      boardSize: v.number(),
+      rating: v.number(),
+      deviation: v.number(),
+      gamesPlayed: v.number(),
+    })
+  ),
+  handler: async (ctx, args) => {
+    const userId = args.userId ?? (await getAuthUserId(ctx));
+    if (!userId) {
+      return [];
+    }
+
+    const ratings = await ctx.db
+      .query("ratings")
+      .withIndex("by_user_and_size", (q) => q.eq("userId", userId))
+      .collect();
+
+    return ratings.map((rating) => ({
+      boardSize: rating.boardSize,
+      rating: rating.rating,
+      deviation: rating.deviation,
+      gamesPlayed: rating.gamesPlayed,
+    }));
+  },
+});
+
+// Rating after each ranked game on one board size, oldest first
+export const getRatingHistory = query({
+  args: { userId: v.optional(v.id("users")), boardSize: v.number() },
+  returns: v.array(
+    v.object({
+      gameId: v.id("games"),
+      rating: v.number(),
+      deviation: v.number(),
+      change: v.number(),
+      createdAt: v.number(),
+    })
+  ),
+  handler: async (ctx, args) => {
+    const userId = args.userId ?? (await getAuthUserId(ctx));
+    if (!userId) {
+      return [];
+    }
+
+    const history = await ctx.db
+      .query("ratingHistory")
+      .withIndex("by_user_and_size", (q) =>
+        q.eq("userId", userId).eq("boardSize", args.boardSize)
+      )
+      .order("asc")
+      .take(500);
+
+    return history.map((entry) => ({
+      gameId: entry.gameId,
+      rating: entry.rating,
+      deviation: entry.deviation,
+      change: entry.change,
+      createdAt: entry.createdAt,
+    }));
+  },
+});
+
+// Highest rated players on a board size
+export const getLeaderboard = query({
+  args: { boardSize: v.number() },
+  returns: v.array(
+    v.object({
+      userId: v.id("users"),
+      rating: v.number(),
+      deviation: v.number(),
+      gamesPlayed: v.number(),
+    })
+  ),
+  handler: async (ctx, args) => {
+    const ratings = await ctx.db
+      .query("ratings")
+      .withIndex("by_size_and_rating", (q) => q.eq("boardSize", args.boardSize))
+      .order("desc")
+      .take(20);
+
+    return ratings.map((rating) => ({
+      userId: rating.userId,
+      rating: rating.rating,
+      deviation: rating.deviation,
+      gamesPlayed: rating.gamesPlayed,
+    }));
+  },
+});
@@ -0,0 +1,30 @@
+import { MutationCtx } from "./_generated/server";
+import { Doc } from "./_generated/dataModel";
+import { updateRatings } from "./ratings";
+import { indexOpening } from "./openings";
+
+export type Winner = "white" | "black" | "draw";
+export type WinCondition = NonNullable<Doc<"games">["winCondition"]>;
+
+// Every way a game can end goes through here, so anything that has to happen
+// when a game finishes (like rating updates) happens in the same transaction.
+// A game's moves must all be recorded before it is finished.
+export async function finishGame(
+  ctx: MutationCtx,
+  game: Doc<"games">,
+  winner: Winner,
+  winCondition: WinCondition
+) {
+  await ctx.db.patch(game._id, {
+    status: "finished",
+    winner,
+    winCondition,
+    drawOfferedBy: undefined,
+    takebackRequestedBy: undefined,
+  });
+
+  if (game.isRanked) {
+    await updateRatings(ctx, game, winner);
+  }
+  await indexOpening(ctx, game, winner);
+}
@@ -9,13 +9,19 @@ const takTables = {
     status: v.union(
       v.literal("waiting"), // Waiting for second player
       v.literal("active"), // Game in progress
-      v.literal("finished") // Game completed
+      v.literal("finished"), // Game completed
+      v.literal("analysis") // Imported, unfinished game for study
     ),
     createdAt: v.number(),
 
-    // Players
-    whitePlayer: v.id("users"),
+    // Players; a seat stays empty until someone takes it
+    whitePlayer: v.optional(v.id("users")),
     blackPlayer: v.optional(v.id("users")),
+    createdBy: v.optional(v.id("users")), // Absent on older games, created as white
+    importedBy: v.optional(v.id("users")), // Imported games leave both seats empty
+    creatorColor: v.optional(
+      v.union(v.literal("white"), v.literal("black"), v.literal("random"))
+    ),
     currentPlayer: v.union(v.literal("white"), v.literal("black")),
 
     // Game state
@@ -50,17 +56,96 @@ const takTables = {
       v.union(v.literal("white"), v.literal("black"), v.literal("draw"))
     ),
     winCondition: v.optional(
-      v.union(v.literal("road"), v.literal("flat"), v.literal("resign"))
+      v.union(
+        v.literal("road"),
+        v.literal("flat"),
+        v.literal("resign"),
+        v.literal("time"),
+        v.literal("agreement")
+      )
     ),
 
     // Game settings
     komi: v.optional(v.number()), // Half-point bonus
     isRanked: v.boolean(),
+
+    // Rule variants; absent for standard rules
+    rules: v.optional(
+      v.object({
+        flats: v.optional(v.number()), // Custom reserve sizes
+        capstones: v.optional(v.number()),
+        noWalls: v.optional(v.boolean()),
+        dragon: v.optional(v.boolean()), // Capstones may not flatten walls
+        noSwap: v.optional(v.boolean()), // No opponent's stone on ply 1 and 2
+      })
+    ),
+
+    // Time control, in milliseconds; absent for untimed games
+    timeControl: v.optional(
+      v.object({
+        initialTime: v.number(),
+        increment: v.number(),
+        correspondenceDays: v.optional(v.number()), // Per-move limit instead
+      })
+    ),
+    whiteTimeRemaining: v.optional(v.number()),
+    blackTimeRemaining: v.optional(v.number()),
+    lastMoveAt: v.optional(v.number()), // When the side to move's clock started
+
+    // Pending draw offer, withdrawn when the offering player moves
+    drawOfferedBy: v.optional(v.union(v.literal("white"), v.literal("black"))),
+
+    // Takebacks: chosen at creation, always off for ranked games
+    allowTakebacks: v.optional(v.boolean()),
+    takebackRequestedBy: v.optional(
+      v.union(v.literal("white"), v.literal("black"))
+    ),
+
+    // The seat played by the computer opponent, if any
+    bot: v.optional(
+      v.object({
+        color: v.union(v.literal("white"), v.literal("black")),
+        level: v.union(
+          v.literal("easy"),
+          v.literal("medium"),
+          v.literal("hard")
+        ),
+      })
+    ),
+
+    // Rematches: a pending offer after the game ends, and the games either
+    // side of this one in a series
+    rematchOfferedBy: v.optional(
+      v.union(v.literal("white"), v.literal("black"))
+    ),
+    rematchGameId: v.optional(v.id("games")),
+    previousGameId: v.optional(v.id("games")),
+
+    // Tag pairs carried over from an imported PTN file
+    ptnTags: v.optional(v.record(v.string(), v.string())),
+
+    // Spectators currently watching, kept in step with the spectators table
+    viewerCount: v.optional(v.number()),
+
+    // Waiting games that are not open to everyone: a direct challenge to
+    // one user, or a private game joined through a secret invite link
+    challengedPlayer: v.optional(v.id("users")),
+    inviteToken: v.optional(v.string()),
+
+    // When the puzzle miner looked at this finished game
+    minedAt: v.optional(v.number()),
+
+    // When this finished game's opening was added to the explorer
+    openingIndexedAt: v.optional(v.number()),
   })
     .index("by_status", ["status"])
+    .index("by_challenged_player", ["challengedPlayer", "status"])
     .index("by_white_player", ["whitePlayer"])
     .index("by_black_player", ["blackPlayer"])
-    .index("by_created", ["createdAt"]),
+    .index("by_creator", ["createdBy", "status"])
+    .index("by_created", ["createdAt"])
+    .index("by_status_and_mined", ["status", "minedAt"])
+    .index("by_status_and_opening_indexed", ["status", "openingIndexedAt"]),
 
   moves: defineTable({
     gameId: v.id("games"),
@@ -102,6 +187,146 @@ const takTables = {
 
     createdAt: v.number(),
   }).index("by_game", ["gameId", "moveNumber"]),
+
+  // The user account behind each computer opponent strength
+  bots: defineTable({
+    level: v.union(v.literal("easy"), v.literal("medium"), v.literal("hard")),
+    userId: v.id("users"),
+  }).index("by_level", ["level"]),
+
+  // Non-players watching a game, refreshed by a client heartbeat
+  spectators: defineTable({
+    gameId: v.id("games"),
+    userId: v.id("users"),
+    lastSeen: v.number(),
+  }).index("by_game_and_user", ["gameId", "userId"]),
+
+  // Chat: the lobby, or one of a game's two channels
+  messages: defineTable({
+    gameId: v.optional(v.id("games")), // Absent for the lobby
+    channel: v.union(
+      v.literal("lobby"),
+      v.literal("players"),
+      v.literal("spectators")
+    ),
+    userId: v.id("users"),
+    body: v.string(),
+    createdAt: v.number(),
+  })
+    .index("by_channel", ["gameId", "channel", "createdAt"])
+    .index("by_user", ["userId", "createdAt"]),
+
+  // A user's variations and annotations for one game
+  analyses: defineTable({
+    userId: v.id("users"),
+    gameId: v.id("games"),
+    variations: v.array(
+      v.object({
+        id: v.string(),
+        parentId: v.optional(v.string()),
+        branchPly: v.number(),
+        moves: v.array(v.string()),
+      })
+    ),
+    annotations: v.array(
+      v.object({
+        lineId: v.optional(v.string()),
+        ply: v.number(),
+        marker: v.optional(v.string()),
+        comment: v.optional(v.string()),
+      })
+    ),
+    updatedAt: v.number(),
+  }).index("by_user_and_game", ["userId", "gameId"]),
+
+  // Positions from finished games where the side to move has a forced road
+  puzzles: defineTable({
+    gameId: v.id("games"),
+    boardSize: v.number(),
+    komi: v.optional(v.number()),
+    rules: v.optional(
+      v.object({
+        flats: v.optional(v.number()),
+        capstones: v.optional(v.number()),
+        noWalls: v.optional(v.boolean()),
+        dragon: v.optional(v.boolean()),
+        noSwap: v.optional(v.boolean()),
+      })
+    ),
+    setup: v.array(v.string()), // The game's moves up to the puzzle position
+    solution: v.array(v.string()), // Solver moves and the defence, alternating
+    depth: v.number(), // Solver moves needed for the road
+
+    // Glicko-2 difficulty: the puzzle "wins" when a solver fails
+    rating: v.number(),
+    deviation: v.number(),
+    volatility: v.number(),
+    attempts: v.number(), // First attempts only
+    solves: v.number(),
+    createdAt: v.number(),
+  })
+    .index("by_game", ["gameId"])
+    .index("by_rating", ["rating"]),
+
+  puzzleAttempts: defineTable({
+    puzzleId: v.id("puzzles"),
+    userId: v.id("users"),
+    moves: v.array(v.string()),
+    solved: v.boolean(),
+    createdAt: v.number(),
+  }).index("by_user_and_puzzle", ["userId", "puzzleId", "createdAt"]),
+
+  // Opening explorer: how often each move was played from a position in
+  // finished games, and how those games ended. Positions are keyed up to
+  // rotation and reflection, with moves in the same canonical orientation.
+  openingMoves: defineTable({
+    boardSize: v.number(),
+    position: v.string(),
+    move: v.string(),
+    games: v.number(),
+    whiteWins: v.number(),
+    blackWins: v.number(),
+    draws: v.number(),
+  }).index("by_position_and_move", ["boardSize", "position", "move"]),
+
+  // Users whose chat messages another user has hidden
+  mutes: defineTable({
+    userId: v.id("users"),
+    mutedUserId: v.id("users"),
+  }).index("by_user", ["userId", "mutedUserId"]),
+
+  // Public player profile, created the first time a user edits it
+  profiles: defineTable({
+    userId: v.id("users"),
+    displayName: v.string(),
+    avatarColor: v.string(), // Hex color, e.g. "#3b82f6"
+    country: v.optional(v.string()),
+    bio: v.optional(v.string()),
+  }).index("by_user", ["userId"]),
+
+  // Glicko-2 rating for each player on each board size
+  ratings: defineTable({
+    userId: v.id("users"),
+    boardSize: v.number(),
+    rating: v.number(),
+    deviation: v.number(), // Rating deviation (RD)
+    volatility: v.number(),
+    gamesPlayed: v.number(),
+    updatedAt: v.number(),
+  })
+    .index("by_user_and_size", ["userId", "boardSize"])
+    .index("by_size_and_rating", ["boardSize", "rating"]),
+
+  // One row per player per finished ranked game
+  ratingHistory: defineTable({
+    userId: v.id("users"),
+    boardSize: v.number(),
+    gameId: v.id("games"),
+    rating: v.number(),
+    deviation: v.number(),
+    change: v.number(),
+    createdAt: v.number(),
+  }).index("by_user_and_size", ["userId", "boardSize", "createdAt"]),
 };
 
 export default defineSchema({
@@ -0,0 +1,108 @@
+import { mutation, internalMutation, MutationCtx } from "./_generated/server";
+import { v } from "convex/values";
+import { getAuthUserId } from "@convex-dev/auth/server";
+import { internal } from "./_generated/api";
+import { Id } from "./_generated/dataModel";
+
+// A spectator who misses heartbeats for this long stops being counted
+const SPECTATOR_TIMEOUT = 30 * 1000;
+
+async function adjustViewerCount(
+  ctx: MutationCtx,
+  gameId: Id<"games">,
+  delta: number
+) {
+  const game = await ctx.db.get(gameId);
+  if (!game) return;
+  await ctx.db.patch(gameId, {
+    viewerCount: Math.max((game.viewerCount ?? 0) + delta, 0),
+  });
+}
+
+// Heartbeat from a non-player viewing a game
+export const watchGame = mutation({
+  args: { gameId: v.id("games") },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      throw new Error("Not authenticated");
+    }
+
+    const game = await ctx.db.get(args.gameId);
+    if (!game) {
+      throw new Error("Game not found");
+    }
+    if (game.whitePlayer === userId || game.blackPlayer === userId) {
+      return null;
+    }
+
+    const now = Date.now();
+    const existing = await ctx.db
+      .query("spectators")
+      .withIndex("by_game_and_user", (q) =>
+        q.eq("gameId", args.gameId).eq("userId", userId)
+      )
+      .unique();
+
+    let spectatorId: Id<"spectators">;
+    if (existing) {
+      spectatorId = existing._id;
+      await ctx.db.patch(spectatorId, { lastSeen: now });
+    } else {
+      spectatorId = await ctx.db.insert("spectators", {
+        gameId: args.gameId,
+        userId,
+        lastSeen: now,
+      });
+      await adjustViewerCount(ctx, args.gameId, 1);
+    }
+
+    await ctx.scheduler.runAfter(
+      SPECTATOR_TIMEOUT,
+      internal.spectators.expireSpectator,
+      { spectatorId }
+    );
+    return null;
+  },
+});
+
+// Stop watching a game, e.g. when the spectator navigates away
+export const leaveGame = mutation({
+  args: { gameId: v.id("games") },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      throw new Error("Not authenticated");
+    }
+
+    const existing = await ctx.db
+      .query("spectators")
+      .withIndex("by_game_and_user", (q) =>
+        q.eq("gameId", args.gameId).eq("userId", userId)
+      )
+      .unique();
+    if (existing) {
+      await ctx.db.delete(existing._id);
+      await adjustViewerCount(ctx, args.gameId, -1);
+    }
+    return null;
+  },
+});
+
+// Drop a spectator whose heartbeats have stopped
+export const expireSpectator = internalMutation({
+  args: { spectatorId: v.id("spectators") },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const spectator = await ctx.db.get(args.spectatorId);
+    if (!spectator || Date.now() - spectator.lastSeen < SPECTATOR_TIMEOUT) {
+      return null;
+    }
+
+    await ctx.db.delete(spectator._id);
+    await adjustViewerCount(ctx, spectator.gameId, -1);
+    return null;
+  },
+});
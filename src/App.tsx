@@ -1,32 +1,84 @@
-import { Authenticated, Unauthenticated } from "convex/react";
-import { useState } from "react";
+import { Authenticated, Unauthenticated, useMutation } from "convex/react";
+import { useEffect, useState } from "react";
 import { SignInForm } from "./SignInForm";
 import { SignOutButton } from "./SignOutButton";
 import { GameBoard } from "./components/GameBoard";
+import { AnalysisBoard } from "./components/AnalysisBoard";
 import { GameLobby } from "./components/GameLobby";
 import { CreateGameForm } from "./components/CreateGameForm";
+import { ImportGameForm } from "./components/ImportGameForm";
+import { ProfilePage } from "./components/ProfilePage";
+import { PuzzleBoard } from "./components/PuzzleBoard";
+import { PlayerSummary } from "./components/PlayerBadge";
+import { api } from "../convex/_generated/api";
 import { Id } from "../convex/_generated/dataModel";
 
-type Screen = "lobby" | "create" | "game";
+type Screen =
+  "lobby" | "create" | "import" | "game" | "analysis" | "profile" | "puzzles";
 
 function App() {
   const [currentScreen, setCurrentScreen] = useState<Screen>("lobby");
   const [currentGameId, setCurrentGameId] = useState<Id<"games"> | null>(null);
+  const [profileUserId, setProfileUserId] = useState<Id<"users"> | undefined>(
+    undefined
+  );
+  const [challengeTarget, setChallengeTarget] = useState<
+    PlayerSummary | undefined
+  >(undefined);
+  const joinGame = useMutation(api.games.joinGame);
 
   const navigateToGame = (gameId: Id<"games">) => {
     setCurrentGameId(gameId);
     setCurrentScreen("game");
   };
 
+  const navigateToAnalysis = (gameId: Id<"games">) => {
+    setCurrentGameId(gameId);
+    setCurrentScreen("analysis");
+  };
+
   const navigateToLobby = () => {
     setCurrentGameId(null);
     setCurrentScreen("lobby");
   };
 
-  const navigateToCreate = () => {
+  const navigateToCreate = (challenged?: PlayerSummary) => {
+    setChallengeTarget(challenged);
     setCurrentScreen("create");
   };
 
+  const navigateToImport = () => {
+    setCurrentScreen("import");
+  };
+
+  const navigateToProfile = (userId?: Id<"users">) => {
+    setProfileUserId(userId);
+    setCurrentScreen("profile");
+  };
+
+  const navigateToPuzzles = () => {
+    setCurrentScreen("puzzles");
+  };
+
+  // Invite links look like ?game=<id>&invite=<token>
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    const gameId = params.get("game") as Id<"games"> | null;
+    const inviteToken = params.get("invite");
+    if (!gameId || !inviteToken) return;
+
+    window.history.replaceState(null, "", window.location.pathname);
+    joinGame({ gameId, inviteToken })
+      .then(() => {
+        setCurrentGameId(gameId);
+        setCurrentScreen("game");
+      })
+      .catch((error) => {
+        console.error("Failed to join invited game:", error);
+        alert(error instanceof Error ? error.message : "Failed to join game");
+      });
+  }, [joinGame]);
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-amber-50 to-orange-100">
       <Unauthenticated>
@@ -59,13 +111,33 @@ function App() {
                 </div>
                 <div className="flex items-center space-x-4">
                   {currentScreen === "lobby" && (
-                    <button
-                      onClick={navigateToCreate}
-                      className="bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700 transition-colors"
-                    >
-                      Create Game
-                    </button>
+                    <>
+                      <button
+                        onClick={navigateToImport}
+                        className="px-4 py-2 border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 transition-colors"
+                      >
+                        Import PTN
+                      </button>
+                      <button
+                        onClick={() => navigateToCreate()}
+                        className="bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700 transition-colors"
+                      >
+                        Create Game
+                      </button>
+                    </>
                   )}
+                  <button
+                    onClick={navigateToPuzzles}
+                    className="text-blue-600 hover:text-blue-800"
+                  >
+                    Puzzles
+                  </button>
+                  <button
+                    onClick={() => navigateToProfile()}
+                    className="text-blue-600 hover:text-blue-800"
+                  >
+                    Profile
+                  </button>
                   <SignOutButton />
                 </div>
               </div>
@@ -74,16 +146,49 @@ function App() {
 
           <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
             {currentScreen === "lobby" && (
-              <GameLobby onGameSelect={navigateToGame} />
+              <GameLobby
+                onGameSelect={navigateToGame}
+                onProfileSelect={navigateToProfile}
+              />
             )}
             {currentScreen === "create" && (
               <CreateGameForm
+                challenged={challengeTarget}
                 onGameCreated={navigateToGame}
                 onCancel={navigateToLobby}
               />
             )}
+            {currentScreen === "import" && (
+              <ImportGameForm
+                onGameImported={navigateToGame}
+                onCancel={navigateToLobby}
+              />
+            )}
             {currentScreen === "game" && currentGameId && (
-              <GameBoard gameId={currentGameId} onGameEnd={navigateToLobby} />
+              <GameBoard
+                key={currentGameId}
+                gameId={currentGameId}
+                onGameEnd={navigateToLobby}
+                onGameSelect={navigateToGame}
+                onAnalyze={navigateToAnalysis}
+              />
+            )}
+            {currentScreen === "analysis" && currentGameId && (
+              <AnalysisBoard
+                key={currentGameId}
+                gameId={currentGameId}
+                onBack={() => navigateToGame(currentGameId)}
+              />
+            )}
+            {currentScreen === "profile" && (
+              <ProfilePage
+                key={profileUserId}
+                userId={profileUserId}
+                onChallenge={navigateToCreate}
+              />
+            )}
+            {currentScreen === "puzzles" && (
+              <PuzzleBoard onGameSelect={navigateToGame} />
             )}
           </main>
         </div>
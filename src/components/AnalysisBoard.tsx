@@ -0,0 +1,654 @@
+import { useQuery, useMutation } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import { Id } from "../../convex/_generated/dataModel";
+import { useState, useEffect, useMemo } from "react";
+import { Board3D } from "./Board3D";
+import { Board2D } from "./Board2D";
+import { GameControls } from "./GameControls";
+import { StackInspector } from "./StackInspector";
+import { OpeningExplorer } from "./OpeningExplorer";
+import {
+  Move,
+  PieceType,
+  applyMove,
+  createInitialState,
+  legalMoves,
+  moveToNotation,
+  result,
+  touchedSquares,
+} from "../../convex/lib/tak";
+import { parseMove, replayNotation } from "../../convex/lib/ptn";
+import {
+  Annotation,
+  Cursor,
+  Variation,
+  childVariations,
+  deleteVariation,
+  lineMoves,
+  moveOwner,
+  normalizeNotation,
+  playMove,
+} from "../../convex/lib/analysis";
+import {
+  PartialMove,
+  addDrop,
+  completeMove,
+  dropTargets,
+  moveSquares,
+} from "../lib/stackMove";
+
+const TAK_MARKERS = ["'", "''"];
+const MOVE_MARKERS = ["!", "?", "!!", "??", "!?", "?!"];
+
+interface AnalysisBoardProps {
+  gameId: Id<"games">;
+  onBack: () => void;
+}
+
+// Split a marker like "'!?" into its Tak part and its move quality part
+function splitMarker(marker: string | undefined) {
+  const match = /^('*)(.*)$/.exec(marker ?? "")!;
+  return { tak: match[1], quality: match[2] };
+}
+
+function moveLabel(ply: number, first: boolean) {
+  const number = Math.ceil(ply / 2);
+  if (ply % 2 === 1) return `${number}.`;
+  return first ? `${number}...` : "";
+}
+
+export function AnalysisBoard({ gameId, onBack }: AnalysisBoardProps) {
+  const game = useQuery(api.games.getGame, { gameId });
+  const moves = useQuery(api.games.getGameMoves, { gameId });
+  const savedAnalysis = useQuery(api.analysis.getAnalysis, { gameId });
+  const saveAnalysis = useMutation(api.analysis.saveAnalysis);
+
+  const [variations, setVariations] = useState<Variation[]>([]);
+  const [annotations, setAnnotations] = useState<Annotation[]>([]);
+  const [cursor, setCursor] = useState<Cursor>({ ply: 0 });
+  const [hasLoaded, setHasLoaded] = useState(false);
+  const [isDirty, setIsDirty] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [moveInput, setMoveInput] = useState("");
+  const [use3D, setUse3D] = useState(false);
+  const [selectedPieceType, setSelectedPieceType] = useState<PieceType>("flat");
+  const [isPlacingPiece, setIsPlacingPiece] = useState(true);
+  const [partialMove, setPartialMove] = useState<PartialMove | null>(null);
+  const [inspectedSquare, setInspectedSquare] = useState<{
+    row: number;
+    col: number;
+  } | null>(null);
+
+  // Start from the saved analysis once, then keep local edits
+  useEffect(() => {
+    if (hasLoaded || savedAnalysis === undefined) return;
+    if (savedAnalysis) {
+      setVariations(savedAnalysis.variations);
+      setAnnotations(savedAnalysis.annotations);
+    }
+    setHasLoaded(true);
+  }, [savedAnalysis, hasLoaded]);
+
+  const mainLine = useMemo(
+    () => moves?.map((move) => move.notation) ?? [],
+    [moves]
+  );
+  const currentLine = useMemo(
+    () => lineMoves(mainLine, variations, cursor.lineId),
+    [mainLine, variations, cursor.lineId]
+  );
+
+  // A game whose moves no longer replay (older rules) can only be looked
+  // at in its final position, rather than failing to render
+  const positions = useMemo(() => {
+    if (!game) return [];
+    try {
+      return replayNotation(
+        createInitialState(game.boardSize, game.komi, game.rules),
+        currentLine
+      );
+    } catch (error) {
+      console.error("Failed to replay game:", error);
+      return null;
+    }
+  }, [game, currentLine]);
+  const canAnalyze = positions !== null;
+  const position = positions ? positions[cursor.ply] : game;
+  const isPlayable = canAnalyze && !!position && !result(position);
+
+  // Clicking the board builds a move the same way as in a game
+  const legal = useMemo(
+    () => (position && isPlayable ? legalMoves(position) : []),
+    [position, isPlayable]
+  );
+  const targetSquares = useMemo(
+    () => (partialMove ? dropTargets(legal, partialMove) : []),
+    [legal, partialMove]
+  );
+  const pendingMove = useMemo(
+    () => (partialMove ? completeMove(partialMove) : null),
+    [partialMove]
+  );
+  const preview = useMemo(() => {
+    if (!position || !partialMove || !pendingMove) return null;
+    const outcome = applyMove(position, pendingMove);
+    return outcome.ok
+      ? { board: outcome.state.board, squares: moveSquares(partialMove) }
+      : null;
+  }, [position, partialMove, pendingMove]);
+
+  // A half-built move belongs to the position it was started in
+  useEffect(() => {
+    setPartialMove(null);
+  }, [position]);
+
+  const lastMoveSquares = useMemo(() => {
+    const move =
+      canAnalyze && cursor.ply > 0
+        ? parseMove(currentLine[cursor.ply - 1])
+        : null;
+    return move ? touchedSquares(move) : undefined;
+  }, [canAnalyze, currentLine, cursor.ply]);
+
+  // The move that led to the cursor, which the annotation controls edit
+  const annotationKey =
+    cursor.ply > 0
+      ? {
+          lineId: moveOwner(variations, cursor.lineId, cursor.ply),
+          ply: cursor.ply,
+        }
+      : null;
+
+  const findAnnotation = (lineId: string | undefined, ply: number) =>
+    annotations.find(
+      (annotation) => annotation.lineId === lineId && annotation.ply === ply
+    );
+  const currentAnnotation = annotationKey
+    ? findAnnotation(annotationKey.lineId, annotationKey.ply)
+    : undefined;
+
+  const updateAnnotation = (changes: Partial<Annotation>) => {
+    if (!annotationKey) return;
+    const updated = { ...currentAnnotation, ...annotationKey, ...changes };
+    setAnnotations([
+      ...annotations.filter((annotation) => annotation !== currentAnnotation),
+      ...(updated.marker || updated.comment ? [updated] : []),
+    ]);
+    setIsDirty(true);
+  };
+
+  const toggleMarker = (part: "tak" | "quality", value: string) => {
+    const marker = splitMarker(currentAnnotation?.marker);
+    marker[part] = marker[part] === value ? "" : value;
+    updateAnnotation({ marker: marker.tak + marker.quality || undefined });
+  };
+
+  // Play a move from the cursor, following the line or starting a variation
+  const submitMove = (move: Move) => {
+    if (!position || !canAnalyze) return false;
+
+    if (result(position)) {
+      alert("The game is already over in this position");
+      return false;
+    }
+    const outcome = applyMove(position, move);
+    if (!outcome.ok) {
+      alert(outcome.error);
+      return false;
+    }
+
+    const next = playMove(
+      mainLine,
+      variations,
+      cursor,
+      moveToNotation(move),
+      crypto.randomUUID()
+    );
+    if (next.variations !== variations) {
+      setVariations(next.variations);
+      setIsDirty(true);
+    }
+    setCursor(next.cursor);
+    return true;
+  };
+
+  const playNotation = (notation: string) => {
+    const move = parseMove(notation);
+    if (!move) {
+      alert(`Unrecognised PTN move "${notation}"`);
+      return false;
+    }
+    return submitMove(move);
+  };
+
+  const handleSquareClick = (row: number, col: number) => {
+    if (!position || !isPlayable) return;
+
+    if (isPlacingPiece) {
+      submitMove({
+        type: "place",
+        position: { row, col },
+        pieceType: selectedPieceType,
+      });
+      return;
+    }
+
+    const stack = position.board[row][col];
+    const isOwnStack =
+      stack[stack.length - 1]?.player === position.currentPlayer;
+
+    if (partialMove) {
+      const isOrigin =
+        partialMove.from.row === row && partialMove.from.col === col;
+      if (isOrigin) {
+        setPartialMove(
+          partialMove.drops.length > 0
+            ? { ...partialMove, direction: null, drops: [] }
+            : null
+        );
+        return;
+      }
+
+      const next = addDrop(legal, partialMove, { row, col });
+      if (next) {
+        setPartialMove(next);
+        return;
+      }
+      if (partialMove.drops.length > 0 || !isOwnStack) {
+        alert("The stack can't drop there");
+        return;
+      }
+    }
+
+    if (stack.length === 0) {
+      alert("No pieces to move!");
+      return;
+    }
+    if (!isOwnStack) {
+      alert(`The ${position.currentPlayer} player doesn't control this stack!`);
+      return;
+    }
+    setPartialMove({
+      from: { row, col },
+      carry: Math.min(stack.length, position.boardSize),
+      direction: null,
+      drops: [],
+    });
+  };
+
+  const handlePlayMove = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const notation = normalizeNotation(moveInput.trim());
+    if (!notation) {
+      alert(`Unrecognised PTN move "${moveInput.trim()}"`);
+      return;
+    }
+    if (playNotation(notation)) {
+      setMoveInput("");
+    }
+  };
+
+  const handleDelete = (variation: Variation) => {
+    if (!window.confirm("Delete this variation and its sub-variations?")) {
+      return;
+    }
+    const remaining = deleteVariation(variations, variation.id);
+    const remainingIds = new Set(remaining.map((line) => line.id));
+    setVariations(remaining);
+    setAnnotations(
+      annotations.filter(
+        (annotation) =>
+          annotation.lineId === undefined || remainingIds.has(annotation.lineId)
+      )
+    );
+    if (cursor.lineId !== undefined && !remainingIds.has(cursor.lineId)) {
+      setCursor({ lineId: variation.parentId, ply: variation.branchPly });
+    }
+    setIsDirty(true);
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await saveAnalysis({ gameId, variations, annotations });
+      setIsDirty(false);
+    } catch (error) {
+      console.error("Failed to save analysis:", error);
+      alert(error instanceof Error ? error.message : "Failed to save analysis");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // A line's own moves after `fromPly`, with the variations that branch
+  // off each of them nested in brackets
+  const renderLine = (lineId: string | undefined, fromPly: number) => {
+    const line = lineMoves(mainLine, variations, lineId);
+    const items = [];
+
+    for (let ply = fromPly + 1; ply <= line.length + 1; ply++) {
+      // Alternatives to this move come straight after it
+      const alternatives = childVariations(variations, lineId, ply - 1);
+      if (ply <= line.length) {
+        const annotation = findAnnotation(lineId, ply);
+        const isCurrent =
+          annotationKey?.lineId === lineId && cursor.ply === ply;
+        items.push(
+          <span key={`move-${ply}`} className="inline-flex gap-1 mr-1">
+            <span className="text-gray-400">
+              {moveLabel(ply, ply === fromPly + 1)}
+            </span>
+            <button
+              onClick={() => setCursor({ lineId, ply })}
+              className={`font-mono rounded px-1 ${
+                isCurrent ? "bg-blue-600 text-white" : "hover:bg-blue-100"
+              }`}
+            >
+              {line[ply - 1]}
+              {annotation?.marker}
+            </button>
+            {annotation?.comment && (
+              <span className="italic text-gray-500">{annotation.comment}</span>
+            )}
+          </span>
+        );
+      }
+      for (const variation of alternatives) {
+        items.push(
+          <span
+            key={variation.id}
+            className="inline-flex flex-wrap items-center border-l-2 border-gray-300 pl-1 mr-1 text-gray-700"
+          >
+            ({renderLine(variation.id, variation.branchPly)}
+            <button
+              onClick={() => handleDelete(variation)}
+              className="text-red-500 hover:text-red-700 px-1"
+              title="Delete variation"
+            >
+              ×
+            </button>
+            )
+          </span>
+        );
+      }
+    }
+
+    return items;
+  };
+
+  if (game === null) {
+    return (
+      <div className="text-center py-8 bg-white rounded-lg shadow-sm">
+        <p className="text-gray-500">This game no longer exists</p>
+      </div>
+    );
+  }
+
+  if (!game || !moves || !position) {
+    return (
+      <div className="flex justify-center items-center min-h-96">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  const marker = splitMarker(currentAnnotation?.marker);
+  const boardShown = preview ? preview.board : position.board;
+  const selectedStackSize = partialMove
+    ? position.board[partialMove.from.row][partialMove.from.col].length
+    : 0;
+
+  return (
+    <div className="max-w-7xl mx-auto">
+      <div className="flex justify-between items-center mb-6">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900">Analysis</h2>
+          <p className="text-sm text-gray-600">
+            {game.white?.displayName ?? "?"} vs {game.black?.displayName ?? "?"}{" "}
+            · {game.boardSize}×{game.boardSize}
+            {cursor.lineId !== undefined && " · in a variation"}
+          </p>
+        </div>
+        <button onClick={onBack} className="text-blue-600 hover:text-blue-800">
+          Back to Game
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+        {/* Board */}
+        <div className="lg:col-span-3">
+          <div className="bg-white rounded-lg shadow-lg p-6">
+            <div className="flex justify-between items-center mb-4">
+              <h3 className="text-lg font-medium text-gray-900">
+                {!canAnalyze
+                  ? "Final position"
+                  : cursor.ply === 0
+                    ? "Start position"
+                    : `After ${moveLabel(cursor.ply, true)} ${currentLine[cursor.ply - 1]}`}
+              </h3>
+              <div className="flex items-center space-x-2">
+                <span className="text-sm text-gray-600">2D</span>
+                <label className="relative inline-flex items-center cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={use3D}
+                    onChange={(e) => setUse3D(e.target.checked)}
+                    className="sr-only peer"
+                  />
+                  <div className="w-11 h-6 bg-gray-200 peer-focus:outline-none peer-focus:ring-4 peer-focus:ring-blue-300 rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-blue-600"></div>
+                </label>
+                <span className="text-sm text-gray-600">3D</span>
+              </div>
+            </div>
+
+            <div className="aspect-square">
+              {use3D ? (
+                <Board3D
+                  boardSize={game.boardSize}
+                  board={boardShown}
+                  onSquareClick={handleSquareClick}
+                  onSquareInspect={setInspectedSquare}
+                  selectedStack={partialMove?.from}
+                  targetSquares={targetSquares}
+                  ghostSquares={preview?.squares}
+                  lastMoveSquares={lastMoveSquares}
+                  isMyTurn={isPlayable}
+                  isLoading={false}
+                  readOnly={!isPlayable}
+                />
+              ) : (
+                <Board2D
+                  boardSize={game.boardSize}
+                  board={boardShown}
+                  onSquareClick={handleSquareClick}
+                  onSquareInspect={setInspectedSquare}
+                  selectedStack={partialMove?.from}
+                  targetSquares={targetSquares}
+                  ghostSquares={preview?.squares}
+                  lastMoveSquares={lastMoveSquares}
+                  isMyTurn={isPlayable}
+                  isLoading={false}
+                  readOnly={!isPlayable}
+                />
+              )}
+            </div>
+
+            <div className="flex justify-center gap-2 mt-4">
+              {[
+                { label: "⏮", ply: 0 },
+                { label: "◀", ply: Math.max(0, cursor.ply - 1) },
+                {
+                  label: "▶",
+                  ply: Math.min(currentLine.length, cursor.ply + 1),
+                },
+                { label: "⏭", ply: currentLine.length },
+              ].map(({ label, ply }) => (
+                <button
+                  key={label}
+                  onClick={() => setCursor({ lineId: cursor.lineId, ply })}
+                  disabled={!canAnalyze || ply === cursor.ply}
+                  className="px-4 py-2 border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+
+            <div className="mt-4 p-3 border border-gray-200 rounded-md">
+              <StackInspector board={position.board} square={inspectedSquare} />
+            </div>
+          </div>
+        </div>
+
+        {/* Moves and annotations */}
+        <div className="lg:col-span-1">
+          <div className="bg-white rounded-lg shadow-lg p-4 space-y-4">
+            {!canAnalyze && (
+              <p className="text-sm text-gray-600">
+                This game's moves no longer replay under the current rules, so
+                only its final position can be shown
+              </p>
+            )}
+
+            {canAnalyze && (
+              <form onSubmit={handlePlayMove} className="space-y-2">
+                <label className="block text-sm font-medium text-gray-700">
+                  Play a move ({position.currentPlayer} to move)
+                </label>
+                <div className="flex gap-2">
+                  <input
+                    value={moveInput}
+                    onChange={(e) => setMoveInput(e.target.value)}
+                    placeholder="e.g. c3 or 2a1>11"
+                    className="flex-1 min-w-0 px-2 py-1 text-sm font-mono border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+                  />
+                  <button
+                    type="submit"
+                    disabled={!moveInput.trim()}
+                    className="px-3 py-1 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                  >
+                    Play
+                  </button>
+                </div>
+                <p className="text-xs text-gray-500">
+                  Moves that leave the game start a variation
+                </p>
+              </form>
+            )}
+
+            {isPlayable && (
+              <GameControls
+                isMyTurn
+                isLoading={false}
+                isPlacingPiece={isPlacingPiece}
+                onModeChange={(isPlacing) => {
+                  setIsPlacingPiece(isPlacing);
+                  setPartialMove(null);
+                }}
+                selectedPieceType={selectedPieceType}
+                onPieceTypeChange={setSelectedPieceType}
+                allowWalls={!game.rules?.noWalls}
+                selectedStackSize={selectedStackSize}
+                carry={partialMove?.carry ?? 0}
+                onCarryChange={(carry) =>
+                  setPartialMove(
+                    (current) =>
+                      current && {
+                        ...current,
+                        carry,
+                        direction: null,
+                        drops: [],
+                      }
+                  )
+                }
+                drops={partialMove?.drops ?? []}
+                canConfirm={!!preview}
+                onConfirm={() => {
+                  if (pendingMove) submitMove(pendingMove);
+                }}
+                onCancel={() => setPartialMove(null)}
+                maxStackSize={game.boardSize}
+              />
+            )}
+
+            {canAnalyze && !game.rules && (
+              <OpeningExplorer
+                boardSize={game.boardSize}
+                moves={currentLine.slice(0, cursor.ply)}
+                onPlay={playNotation}
+              />
+            )}
+
+            <div>
+              <h4 className="text-sm font-medium text-gray-700 mb-2">Moves</h4>
+              <div className="max-h-80 overflow-y-auto text-sm flex flex-wrap items-center">
+                {mainLine.length === 0 && variations.length === 0 ? (
+                  <span className="text-xs text-gray-400">No moves yet</span>
+                ) : (
+                  renderLine(undefined, 0)
+                )}
+              </div>
+            </div>
+
+            {annotationKey && (
+              <div className="space-y-2">
+                <h4 className="text-sm font-medium text-gray-700">
+                  Annotate {currentLine[cursor.ply - 1]}
+                </h4>
+                <div className="flex flex-wrap gap-1">
+                  {TAK_MARKERS.map((value) => (
+                    <button
+                      key={value}
+                      onClick={() => toggleMarker("tak", value)}
+                      className={`px-2 py-1 text-sm font-mono rounded border ${
+                        marker.tak === value
+                          ? "bg-blue-600 text-white border-blue-600"
+                          : "border-gray-300 hover:bg-gray-50"
+                      }`}
+                    >
+                      {value}
+                    </button>
+                  ))}
+                  {MOVE_MARKERS.map((value) => (
+                    <button
+                      key={value}
+                      onClick={() => toggleMarker("quality", value)}
+                      className={`px-2 py-1 text-sm font-mono rounded border ${
+                        marker.quality === value
+                          ? "bg-blue-600 text-white border-blue-600"
+                          : "border-gray-300 hover:bg-gray-50"
+                      }`}
+                    >
+                      {value}
+                    </button>
+                  ))}
+                </div>
+                <textarea
+                  value={currentAnnotation?.comment ?? ""}
+                  onChange={(e) =>
+                    updateAnnotation({ comment: e.target.value || undefined })
+                  }
+                  maxLength={1000}
+                  rows={3}
+                  placeholder="Comment on this move"
+                  className="w-full px-2 py-1 text-sm border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+                />
+              </div>
+            )}
+
+            <button
+              onClick={() => {
+                void handleSave();
+              }}
+              disabled={isSaving || !isDirty}
+              className="w-full bg-blue-600 text-white py-2 px-4 rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              {isSaving ? "Saving..." : isDirty ? "Save Analysis" : "Saved"}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
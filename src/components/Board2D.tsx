@@ -1,26 +1,53 @@
-import React from "react";
+import React, { useRef, useState } from "react";
+import { squareName } from "../../convex/lib/tak";
 
 interface Piece {
   player: "white" | "black";
   type: "flat" | "wall" | "capstone";
 }
 
+const LONG_PRESS_DELAY = 500;
+
+// Arrow keys move focus around the board as it is drawn, rank 1 on top
+const KEY_STEPS: Record<string, { row: number; col: number }> = {
+  ArrowUp: { row: -1, col: 0 },
+  ArrowDown: { row: 1, col: 0 },
+  ArrowLeft: { row: 0, col: -1 },
+  ArrowRight: { row: 0, col: 1 },
+};
+
 interface Board2DProps {
   boardSize: number;
   board: Piece[][][];
   onSquareClick: (row: number, col: number) => void;
+  onSquareInspect?: (square: { row: number; col: number } | null) => void; // Hover or long-press
   selectedStack?: { row: number; col: number } | null;
+  targetSquares?: { row: number; col: number }[]; // Where the selected stack can drop next
+  ghostSquares?: { row: number; col: number }[]; // Squares showing a move not yet confirmed
+  lastMoveSquares?: { row: number; col: number }[];
+  roadSquares?: { row: number; col: number }[]; // The winning road
+  threatSquares?: { row: number; col: number }[]; // Where a road could be completed next move
+  countedFlats?: Record<"white" | "black", { row: number; col: number }[]>; // Tops counted in a flat win
   isMyTurn: boolean;
   isLoading: boolean;
+  readOnly?: boolean; // Spectators see the board without the "not your turn" dimming
 }
 
 export function Board2D({
   boardSize,
   board,
   onSquareClick,
+  onSquareInspect,
   selectedStack,
+  targetSquares = [],
+  ghostSquares = [],
+  lastMoveSquares = [],
+  roadSquares = [],
+  threatSquares = [],
+  countedFlats,
   isMyTurn,
   isLoading,
+  readOnly = false,
 }: Board2DProps) {
   const getPieceIcon = (piece: Piece) => {
     const isWhite = piece.player === "white";
@@ -52,14 +79,70 @@ export function Board2D({
     );
   };
 
+  const isDisabled = readOnly || !isMyTurn || isLoading;
+  const longPressRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const squareRefs = useRef(new Map<string, HTMLButtonElement>());
+  // The one square reachable with Tab; arrow keys move it
+  const [focusSquare, setFocusSquare] = useState({ row: 0, col: 0 });
+
+  const handleKeyDown = (e: React.KeyboardEvent, row: number, col: number) => {
+    const step = KEY_STEPS[e.key];
+    if (!step) return;
+    e.preventDefault();
+    e.stopPropagation();
+
+    const next = {
+      row: Math.min(boardSize - 1, Math.max(0, row + step.row)),
+      col: Math.min(boardSize - 1, Math.max(0, col + step.col)),
+    };
+    setFocusSquare(next);
+    squareRefs.current.get(`${next.row}-${next.col}`)?.focus();
+  };
+
+  const describeSquare = (row: number, col: number) => {
+    const stack = board[row][col];
+    const name = squareName({ row, col });
+    if (stack.length === 0) return `${name}, empty`;
+    const top = stack[stack.length - 1];
+    return `${name}, ${stack.length} ${stack.length === 1 ? "piece" : "pieces"}, ${top.player} ${top.type} on top`;
+  };
+
+  const cancelLongPress = () => {
+    if (longPressRef.current) {
+      clearTimeout(longPressRef.current);
+      longPressRef.current = null;
+    }
+  };
+
   const isSelected = (row: number, col: number) => {
     return selectedStack?.row === row && selectedStack?.col === col;
   };
 
+  const isIn = (
+    squares: { row: number; col: number }[] | undefined,
+    row: number,
+    col: number
+  ) => !!squares?.some((square) => square.row === row && square.col === col);
+
+  const isGhost = (row: number, col: number) => isIn(ghostSquares, row, col);
+
+  const getSquareColors = (row: number, col: number) => {
+    if (isSelected(row, col)) return "border-green-500 bg-green-100";
+    if (isIn(targetSquares, row, col)) return "border-blue-400 bg-blue-100";
+    if (isIn(roadSquares, row, col)) return "border-emerald-500 bg-emerald-200";
+    if (isIn(threatSquares, row, col)) return "border-red-500 bg-red-200";
+    if (isIn(countedFlats?.white, row, col)) return "border-sky-400 bg-sky-100";
+    if (isIn(countedFlats?.black, row, col))
+      return "border-rose-400 bg-rose-100";
+    return "border-amber-300 bg-amber-200";
+  };
+
   return (
     <div className="w-full h-full min-h-96 bg-gradient-to-b from-amber-100 to-amber-200 rounded-lg p-4 flex items-center justify-center">
       <div className="bg-amber-50 p-4 rounded-lg shadow-inner">
         <div
+          role="group"
+          aria-label="Board"
           className="grid gap-1"
           style={{
             gridTemplateColumns: `repeat(${boardSize}, 1fr)`,
@@ -70,31 +153,71 @@ export function Board2D({
             Array.from({ length: boardSize }, (_, col) => (
               <button
                 key={`${row}-${col}`}
-                onClick={() => onSquareClick(row, col)}
-                disabled={!isMyTurn || isLoading}
+                ref={(element) => {
+                  if (element) {
+                    squareRefs.current.set(`${row}-${col}`, element);
+                  } else {
+                    squareRefs.current.delete(`${row}-${col}`);
+                  }
+                }}
+                // Stays focusable when disabled so keyboard users can still look around
+                onClick={() => {
+                  if (!isDisabled) onSquareClick(row, col);
+                }}
+                onKeyDown={(e) => handleKeyDown(e, row, col)}
+                onFocus={() => {
+                  setFocusSquare({ row, col });
+                  onSquareInspect?.({ row, col });
+                }}
+                onBlur={() => onSquareInspect?.(null)}
+                onMouseEnter={() => onSquareInspect?.({ row, col })}
+                onMouseLeave={() => onSquareInspect?.(null)}
+                onTouchStart={() => {
+                  cancelLongPress();
+                  longPressRef.current = setTimeout(
+                    () => onSquareInspect?.({ row, col }),
+                    LONG_PRESS_DELAY
+                  );
+                }}
+                onTouchEnd={cancelLongPress}
+                onTouchMove={cancelLongPress}
+                tabIndex={
+                  focusSquare.row === row && focusSquare.col === col ? 0 : -1
+                }
+                aria-disabled={isDisabled}
+                aria-label={describeSquare(row, col)}
                 className={`
                   w-12 h-12 border-2 transition-all duration-200
+                  focus:outline-none focus-visible:ring-4 focus-visible:ring-blue-500
+                  ${getSquareColors(row, col)}
+                  ${isIn(lastMoveSquares, row, col) ? "ring-2 ring-yellow-400" : ""}
+                  ${isGhost(row, col) ? "border-dashed" : ""}
                   ${
-                    isSelected(row, col)
-                      ? "border-green-500 bg-green-100"
-                      : "border-amber-300 bg-amber-200"
-                  }
-                  ${
-                    isMyTurn && !isLoading
-                      ? "hover:border-blue-400 hover:bg-blue-100 cursor-pointer"
-                      : "cursor-not-allowed opacity-60"
+                    readOnly
+                      ? "cursor-default"
+                      : isMyTurn && !isLoading
+                        ? "hover:border-blue-400 hover:bg-blue-100 cursor-pointer"
+                        : "cursor-not-allowed opacity-60"
                   }
                   ${board[row][col].length > 0 ? "shadow-md" : ""}
                 `}
               >
-                {getStackDisplay(board[row][col])}
+                <div
+                  className={`h-full ${isGhost(row, col) ? "opacity-60" : ""}`}
+                >
+                  {getStackDisplay(board[row][col])}
+                </div>
               </button>
             ))
           )}
         </div>
         <div className="text-center mt-4">
           <p className="text-sm text-gray-600">2D Board (Fallback Mode)</p>
-          <p className="text-xs text-gray-500">Click squares to make moves</p>
+          <p className="text-xs text-gray-500">
+            {readOnly
+              ? "Spectating"
+              : "Click squares, or use Tab, the arrow keys and Enter, to make moves"}
+          </p>
         </div>
       </div>
     </div>
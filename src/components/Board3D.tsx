@@ -1,5 +1,6 @@
 import { useRef, useEffect, useState } from "react";
 import * as THREE from "three";
+import { squareName } from "../../convex/lib/tak";
 import { OrbitControls } from "three/examples/jsm/controls/OrbitControls.js";
 
 interface Piece {
@@ -11,19 +12,46 @@ interface Board3DProps {
   boardSize: number;
   board: Piece[][][];
   onSquareClick: (row: number, col: number) => void;
+  onSquareInspect?: (square: { row: number; col: number } | null) => void; // Hover or long-press
   selectedStack?: { row: number; col: number } | null;
+  targetSquares?: { row: number; col: number }[]; // Where the selected stack can drop next
+  ghostSquares?: { row: number; col: number }[]; // Squares showing a move not yet confirmed
+  lastMoveSquares?: { row: number; col: number }[];
+  roadSquares?: { row: number; col: number }[]; // The winning road
+  threatSquares?: { row: number; col: number }[]; // Where a road could be completed next move
+  countedFlats?: Record<"white" | "black", { row: number; col: number }[]>; // Tops counted in a flat win
   isMyTurn: boolean;
   isLoading: boolean;
+  readOnly?: boolean; // Spectators and history views: look, but don't play
 }
 
+const NO_SQUARES: { row: number; col: number }[] = [];
+const LONG_PRESS_DELAY = 500;
+
+const KEY_STEPS: Record<string, { row: number; col: number }> = {
+  ArrowUp: { row: -1, col: 0 },
+  ArrowDown: { row: 1, col: 0 },
+  ArrowLeft: { row: 0, col: -1 },
+  ArrowRight: { row: 0, col: 1 },
+};
+
 export function Board3D({
   boardSize,
   board,
   onSquareClick,
+  onSquareInspect,
   selectedStack,
+  targetSquares = NO_SQUARES,
+  ghostSquares = NO_SQUARES,
+  lastMoveSquares = NO_SQUARES,
+  roadSquares = NO_SQUARES,
+  threatSquares = NO_SQUARES,
+  countedFlats,
   isMyTurn,
   isLoading,
+  readOnly = false,
 }: Board3DProps) {
+  const isDisabled = readOnly || !isMyTurn || isLoading;
   const mountRef = useRef<HTMLDivElement>(null);
   const sceneRef = useRef<THREE.Scene | null>(null);
   const rendererRef = useRef<THREE.WebGLRenderer | null>(null);
@@ -37,15 +65,25 @@ export function Board3D({
   const clickHandlerRef = useRef<((row: number, col: number) => void) | null>(
     null
   );
+  const inspectHandlerRef = useRef(onSquareInspect);
 
   const [isInitialized, setIsInitialized] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  // Square picked out with the keyboard while the board has focus
+  const [keyboardSquare, setKeyboardSquare] = useState<{
+    row: number;
+    col: number;
+  } | null>(null);
 
   // Keep click handler ref updated
   useEffect(() => {
     clickHandlerRef.current = onSquareClick;
   }, [onSquareClick]);
 
+  useEffect(() => {
+    inspectHandlerRef.current = onSquareInspect;
+  }, [onSquareInspect]);
+
   // Initialize Three.js scene (once only)
   useEffect(() => {
     if (!mountRef.current || isInitialized) return;
@@ -232,8 +270,7 @@ export function Board3D({
       if (isDragging || clickDuration > 200) return;
 
       if (
-        !isMyTurn ||
-        isLoading ||
+        isDisabled ||
         !raycasterRef.current ||
         !mouseRef.current ||
         !cameraRef.current ||
@@ -270,7 +307,88 @@ export function Board3D({
       renderer.domElement.removeEventListener("mousemove", handleMouseMove);
       renderer.domElement.removeEventListener("click", handleMouseClick);
     };
-  }, [isInitialized, isMyTurn, isLoading]);
+  }, [isInitialized, isDisabled]);
+
+  // Report the square under the mouse, or a long-pressed one on touch
+  useEffect(() => {
+    if (!isInitialized || !rendererRef.current) return;
+
+    const renderer = rendererRef.current;
+    let reportedKey: string | null = null;
+    let longPressTimer: ReturnType<typeof setTimeout> | null = null;
+
+    const squareAt = (event: PointerEvent) => {
+      if (!raycasterRef.current || !cameraRef.current || !sceneRef.current) {
+        return null;
+      }
+
+      const rect = renderer.domElement.getBoundingClientRect();
+      const pointer = new THREE.Vector2(
+        ((event.clientX - rect.left) / rect.width) * 2 - 1,
+        -((event.clientY - rect.top) / rect.height) * 2 + 1
+      );
+      raycasterRef.current.setFromCamera(pointer, cameraRef.current);
+      const hit = raycasterRef.current
+        .intersectObjects(sceneRef.current.children)
+        .find((intersect) => intersect.object.userData.type === "square");
+      if (!hit) return null;
+      const { row, col } = hit.object.userData as { row: number; col: number };
+      return { row, col };
+    };
+
+    const report = (square: { row: number; col: number } | null) => {
+      const key = square ? `${square.row},${square.col}` : null;
+      if (key === reportedKey) return;
+      reportedKey = key;
+      inspectHandlerRef.current?.(square);
+    };
+
+    const cancelLongPress = () => {
+      if (longPressTimer) {
+        clearTimeout(longPressTimer);
+        longPressTimer = null;
+      }
+    };
+
+    const handlePointerMove = (event: PointerEvent) => {
+      if (event.pointerType === "mouse") {
+        report(squareAt(event));
+      } else {
+        cancelLongPress();
+      }
+    };
+
+    const handlePointerDown = (event: PointerEvent) => {
+      if (event.pointerType === "mouse") return;
+      cancelLongPress();
+      longPressTimer = setTimeout(
+        () => report(squareAt(event)),
+        LONG_PRESS_DELAY
+      );
+    };
+
+    const handlePointerLeave = (event: PointerEvent) => {
+      if (event.pointerType === "mouse") report(null);
+    };
+
+    renderer.domElement.addEventListener("pointermove", handlePointerMove);
+    renderer.domElement.addEventListener("pointerdown", handlePointerDown);
+    renderer.domElement.addEventListener("pointerup", cancelLongPress);
+    renderer.domElement.addEventListener("pointercancel", cancelLongPress);
+    renderer.domElement.addEventListener("pointerleave", handlePointerLeave);
+
+    return () => {
+      cancelLongPress();
+      renderer.domElement.removeEventListener("pointermove", handlePointerMove);
+      renderer.domElement.removeEventListener("pointerdown", handlePointerDown);
+      renderer.domElement.removeEventListener("pointerup", cancelLongPress);
+      renderer.domElement.removeEventListener("pointercancel", cancelLongPress);
+      renderer.domElement.removeEventListener(
+        "pointerleave",
+        handlePointerLeave
+      );
+    };
+  }, [isInitialized]);
 
   // Update pieces when board changes (separate effect)
   useEffect(() => {
@@ -307,26 +425,40 @@ export function Board3D({
           .map(() => [])
       );
 
-    // Add current pieces
+    // Add current pieces, see-through where a move is only previewed
     for (let row = 0; row < boardSize; row++) {
       for (let col = 0; col < boardSize; col++) {
         const stack = board[row][col];
+        const isGhost = ghostSquares.some(
+          (square) => square.row === row && square.col === col
+        );
         for (let i = 0; i < stack.length; i++) {
           const piece = stack[i];
-          const group = createPieceObject(piece);
+          const group = createPieceObject(piece, isGhost);
           group.position.set(col, i * 0.1, row);
           scene.add(group);
           pieceObjectsRef.current[row][col].push(group);
         }
       }
     }
-  }, [board, boardSize, isInitialized]);
+  }, [board, boardSize, ghostSquares, isInitialized]);
 
   // Update selected square highlighting (separate effect)
   useEffect(() => {
     if (!squareObjectsRef.current.length || !isInitialized) return;
 
     const selectedMaterial = new THREE.MeshLambertMaterial({ color: 0x90ee90 });
+    const targetMaterial = new THREE.MeshLambertMaterial({ color: 0x87cefa });
+    const roadMaterial = new THREE.MeshLambertMaterial({ color: 0x3cb371 });
+    const threatMaterial = new THREE.MeshLambertMaterial({ color: 0xff6347 });
+    const whiteFlatMaterial = new THREE.MeshLambertMaterial({
+      color: 0xb0e0e6,
+    });
+    const blackFlatMaterial = new THREE.MeshLambertMaterial({
+      color: 0xf4a6a6,
+    });
+    const lastMoveMaterial = new THREE.MeshLambertMaterial({ color: 0xf0e68c });
+    const keyboardMaterial = new THREE.MeshLambertMaterial({ color: 0xffa500 });
     const normalMaterial = new THREE.MeshLambertMaterial({ color: 0xdeb887 });
 
     // Reset all squares to normal
@@ -338,6 +470,26 @@ export function Board3D({
       })
     );
 
+    // Later highlights win: last move, counted flats, threats, road, drop
+    // targets
+    const highlights: [{ row: number; col: number }[], THREE.Material][] = [
+      [lastMoveSquares, lastMoveMaterial],
+      [countedFlats?.white ?? NO_SQUARES, whiteFlatMaterial],
+      [countedFlats?.black ?? NO_SQUARES, blackFlatMaterial],
+      [threatSquares, threatMaterial],
+      [roadSquares, roadMaterial],
+      [targetSquares, targetMaterial],
+      [keyboardSquare ? [keyboardSquare] : NO_SQUARES, keyboardMaterial],
+    ];
+    for (const [squares, material] of highlights) {
+      for (const position of squares) {
+        const square = squareObjectsRef.current[position.row]?.[position.col];
+        if (square) {
+          square.material = material;
+        }
+      }
+    }
+
     // Highlight selected square
     if (selectedStack) {
       const square =
@@ -350,11 +502,52 @@ export function Board3D({
     // Cleanup materials when effect runs again
     return () => {
       selectedMaterial.dispose();
+      targetMaterial.dispose();
+      roadMaterial.dispose();
+      threatMaterial.dispose();
+      whiteFlatMaterial.dispose();
+      blackFlatMaterial.dispose();
+      lastMoveMaterial.dispose();
+      keyboardMaterial.dispose();
       normalMaterial.dispose();
     };
-  }, [selectedStack, isInitialized]);
+  }, [
+    selectedStack,
+    targetSquares,
+    lastMoveSquares,
+    roadSquares,
+    threatSquares,
+    countedFlats,
+    keyboardSquare,
+    isInitialized,
+  ]);
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    const current = keyboardSquare ?? { row: 0, col: 0 };
+    const step = KEY_STEPS[e.key];
+    if (step) {
+      const next = {
+        row: Math.min(boardSize - 1, Math.max(0, current.row + step.row)),
+        col: Math.min(boardSize - 1, Math.max(0, current.col + step.col)),
+      };
+      setKeyboardSquare(next);
+      onSquareInspect?.(next);
+    } else if (e.key === "Enter" || e.key === " ") {
+      if (!isDisabled) {
+        onSquareClick(current.row, current.col);
+      }
+    } else {
+      return;
+    }
+    e.preventDefault();
+    e.stopPropagation();
+  };
 
-  const createPieceObject = (piece: Piece): THREE.Group => {
+  const keyboardStack = keyboardSquare
+    ? board[keyboardSquare.row]?.[keyboardSquare.col]
+    : undefined;
+
+  const createPieceObject = (piece: Piece, isGhost = false): THREE.Group => {
     const group = new THREE.Group();
 
     let geometry: THREE.BufferGeometry;
@@ -377,6 +570,11 @@ export function Board3D({
       material = new THREE.MeshLambertMaterial({ color: 0x2c2c2c });
     }
 
+    if (isGhost) {
+      material.transparent = true;
+      material.opacity = 0.5;
+    }
+
     const mesh = new THREE.Mesh(geometry, material);
     mesh.castShadow = true;
     mesh.receiveShadow = true;
@@ -408,9 +606,26 @@ export function Board3D({
   return (
     <div
       ref={mountRef}
-      className="w-full h-full min-h-96 bg-gradient-to-b from-sky-200 to-sky-100 rounded-lg overflow-hidden relative"
+      tabIndex={0}
+      role="application"
+      aria-label={
+        readOnly
+          ? "3D board. Use the arrow keys to inspect a square."
+          : "3D board. Use the arrow keys to pick a square and Enter to play on it."
+      }
+      onKeyDown={handleKeyDown}
+      onFocus={() => {
+        const square = keyboardSquare ?? { row: 0, col: 0 };
+        setKeyboardSquare(square);
+        onSquareInspect?.(square);
+      }}
+      onBlur={() => {
+        setKeyboardSquare(null);
+        onSquareInspect?.(null);
+      }}
+      className="w-full h-full min-h-96 bg-gradient-to-b from-sky-200 to-sky-100 rounded-lg overflow-hidden relative focus:outline-none focus-visible:ring-4 focus-visible:ring-blue-500"
       style={{
-        cursor: isMyTurn && !isLoading ? "pointer" : "default",
+        cursor: isDisabled ? "default" : "pointer",
         minHeight: "400px",
       }}
     >
@@ -429,11 +644,23 @@ export function Board3D({
           </div>
           <div className="absolute top-2 right-2 bg-black bg-opacity-70 text-white text-xs px-3 py-2 rounded max-w-48">
             <div className="font-semibold mb-1">Controls:</div>
-            <div>• Left click: Place piece</div>
+            {!readOnly && <div>• Left click: Place piece</div>}
             <div>• Left drag: Rotate view</div>
             <div>• Scroll: Zoom in/out</div>
             <div>• Right drag: Pan view</div>
+            {!readOnly && <div>• Arrows + Enter: Keyboard play</div>}
           </div>
+          {keyboardSquare && (
+            <div
+              aria-live="polite"
+              className="absolute bottom-2 left-2 bg-black bg-opacity-50 text-white text-xs px-2 py-1 rounded"
+            >
+              {squareName(keyboardSquare)}
+              {keyboardStack && keyboardStack.length > 0
+                ? `: ${keyboardStack.length} ${keyboardStack.length === 1 ? "piece" : "pieces"}, ${keyboardStack[keyboardStack.length - 1].player} ${keyboardStack[keyboardStack.length - 1].type} on top`
+                : ": empty"}
+            </div>
+          )}
         </>
       )}
     </div>
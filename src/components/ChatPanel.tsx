@@ -0,0 +1,193 @@
+import { useEffect, useRef, useState } from "react";
+import { useQuery, useMutation } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import { Id } from "../../convex/_generated/dataModel";
+
+type Channel = "lobby" | "players" | "spectators";
+
+interface ChatPanelProps {
+  gameId?: Id<"games">;
+  channels: Channel[]; // First one is shown initially
+  writableChannels: Channel[];
+  currentUserId?: Id<"users">;
+}
+
+const CHANNEL_NAMES: Record<Channel, string> = {
+  lobby: "Lobby",
+  players: "Players",
+  spectators: "Spectators",
+};
+
+const MAX_MESSAGE_LENGTH = 300;
+
+export function ChatPanel({
+  gameId,
+  channels,
+  writableChannels,
+  currentUserId,
+}: ChatPanelProps) {
+  const [selectedChannel, setChannel] = useState<Channel>(channels[0]);
+  // Fall back to the first channel once the selected one is taken away,
+  // like spectator chat for a player when their game starts
+  const channel = channels.includes(selectedChannel)
+    ? selectedChannel
+    : channels[0];
+  const [draft, setDraft] = useState("");
+  const [isSending, setIsSending] = useState(false);
+  const [showMuted, setShowMuted] = useState(false);
+  const messages = useQuery(api.messages.listMessages, { gameId, channel });
+  const mutedUsers = useQuery(api.messages.listMutedUsers);
+  const sendMessage = useMutation(api.messages.sendMessage);
+  const muteUser = useMutation(api.messages.muteUser);
+  const unmuteUser = useMutation(api.messages.unmuteUser);
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  // Keep the newest message in view
+  useEffect(() => {
+    scrollRef.current?.scrollTo({ top: scrollRef.current.scrollHeight });
+  }, [messages]);
+
+  const canWrite = writableChannels.includes(channel);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft.trim()) return;
+
+    setIsSending(true);
+    try {
+      await sendMessage({ gameId, channel, body: draft });
+      setDraft("");
+    } catch (error) {
+      console.error("Failed to send message:", error);
+      alert(error instanceof Error ? error.message : "Failed to send message");
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const handleMute = async (userId: Id<"users">, mute: boolean) => {
+    try {
+      await (mute ? muteUser : unmuteUser)({ userId });
+    } catch (error) {
+      console.error("Failed to update mute:", error);
+      alert(error instanceof Error ? error.message : "Failed to update mute");
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex justify-between items-center">
+        <h4 className="text-sm font-medium text-gray-700">Chat</h4>
+        {channels.length > 1 && (
+          <div className="flex gap-1">
+            {channels.map((option) => (
+              <button
+                key={option}
+                onClick={() => setChannel(option)}
+                className={`text-xs px-2 py-1 rounded ${
+                  option === channel
+                    ? "bg-blue-100 text-blue-700"
+                    : "text-gray-500 hover:bg-gray-100"
+                }`}
+              >
+                {CHANNEL_NAMES[option]}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div
+        ref={scrollRef}
+        className="h-48 overflow-y-auto border border-gray-200 rounded-md p-2 space-y-1 text-sm bg-gray-50"
+      >
+        {messages === undefined ? (
+          <p className="text-xs text-gray-400">Loading...</p>
+        ) : messages.length === 0 ? (
+          <p className="text-xs text-gray-400">No messages yet</p>
+        ) : (
+          messages.map((message) => (
+            <div key={message._id} className="group flex gap-1">
+              <span
+                className="font-semibold shrink-0"
+                style={{ color: message.sender.avatarColor }}
+              >
+                {message.sender.displayName}:
+              </span>
+              <span className="text-gray-800 break-words min-w-0 flex-1">
+                {message.body}
+              </span>
+              {message.sender.userId !== currentUserId && (
+                <button
+                  onClick={() => {
+                    void handleMute(message.sender.userId, true);
+                  }}
+                  className="hidden group-hover:inline text-xs text-gray-400 hover:text-red-600"
+                  title={`Mute ${message.sender.displayName}`}
+                >
+                  Mute
+                </button>
+              )}
+            </div>
+          ))
+        )}
+      </div>
+
+      {canWrite ? (
+        <form
+          onSubmit={(e) => {
+            handleSubmit(e).catch(console.error);
+          }}
+          className="flex gap-2"
+        >
+          <input
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            maxLength={MAX_MESSAGE_LENGTH}
+            placeholder={`Message ${CHANNEL_NAMES[channel].toLowerCase()}`}
+            className="flex-1 min-w-0 px-2 py-1 text-sm border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+          />
+          <button
+            type="submit"
+            disabled={isSending || !draft.trim()}
+            className="px-3 py-1 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            Send
+          </button>
+        </form>
+      ) : (
+        <p className="text-xs text-gray-400">
+          Only players can write in this channel
+        </p>
+      )}
+
+      {mutedUsers && mutedUsers.length > 0 && (
+        <div className="text-xs text-gray-500">
+          <button
+            onClick={() => setShowMuted(!showMuted)}
+            className="hover:text-gray-700"
+          >
+            {mutedUsers.length} muted {showMuted ? "▲" : "▼"}
+          </button>
+          {showMuted && (
+            <ul className="mt-1 space-y-1">
+              {mutedUsers.map((user) => (
+                <li key={user.userId} className="flex justify-between">
+                  <span>{user.displayName}</span>
+                  <button
+                    onClick={() => {
+                      void handleMute(user.userId, false);
+                    }}
+                    className="text-blue-600 hover:text-blue-800"
+                  >
+                    Unmute
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -2,32 +2,92 @@ import { useState } from "react";
 import { useMutation } from "convex/react";
 import { api } from "../../convex/_generated/api";
 import { Id } from "../../convex/_generated/dataModel";
+import { RuleVariants, getInitialPieces } from "../../convex/lib/tak";
+import { PlayerBadge, PlayerSummary } from "./PlayerBadge";
+
+type ColorChoice = "white" | "black" | "random";
+type OpponentChoice = "open" | "private" | "computer";
+type BotLevel = "easy" | "medium" | "hard";
+
+const COLOR_OPTIONS: { value: ColorChoice; label: string }[] = [
+  { value: "white", label: "⚪ White" },
+  { value: "random", label: "🎲 Random" },
+  { value: "black", label: "⚫ Black" },
+];
 
 interface CreateGameFormProps {
+  challenged?: PlayerSummary;
   onGameCreated: (gameId: Id<"games">) => void;
   onCancel: () => void;
 }
 
 export function CreateGameForm({
+  challenged,
   onGameCreated,
   onCancel,
 }: CreateGameFormProps) {
   const [boardSize, setBoardSize] = useState(5);
   const [isRanked, setIsRanked] = useState(false);
+  const [allowTakebacks, setAllowTakebacks] = useState(false);
+  const [opponent, setOpponent] = useState<OpponentChoice>("open");
+  const [botLevel, setBotLevel] = useState<BotLevel>("medium");
+  const [creatorColor, setCreatorColor] = useState<ColorChoice>("random");
   const [komi, setKomi] = useState(0);
+  const [customPieces, setCustomPieces] = useState(false);
+  const [flats, setFlats] = useState(21);
+  const [capstones, setCapstones] = useState(1);
+  const [noWalls, setNoWalls] = useState(false);
+  const [dragon, setDragon] = useState(false);
+  const [openingSwap, setOpeningSwap] = useState(true);
+  const [timeMode, setTimeMode] = useState<
+    "untimed" | "realtime" | "correspondence"
+  >("untimed");
+  const [minutes, setMinutes] = useState(15);
+  const [incrementSeconds, setIncrementSeconds] = useState(10);
+  const [daysPerMove, setDaysPerMove] = useState(3);
   const [isCreating, setIsCreating] = useState(false);
 
   const createGame = useMutation(api.games.createGame);
 
+  const isVsComputer = !challenged && opponent === "computer";
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setIsCreating(true);
 
+    const rules: RuleVariants = {};
+    if (customPieces) {
+      rules.flats = flats;
+      rules.capstones = capstones;
+    }
+    if (noWalls) rules.noWalls = true;
+    if (dragon) rules.dragon = true;
+    if (!openingSwap) rules.noSwap = true;
+
     try {
       const gameId = await createGame({
         boardSize,
-        isRanked,
+        isRanked: !isVsComputer && isRanked,
+        allowTakebacks: !isVsComputer && !isRanked && allowTakebacks,
+        challengedUserId: challenged?.userId,
+        isPrivate: !challenged && opponent === "private",
+        botLevel: isVsComputer ? botLevel : undefined,
+        creatorColor,
         komi: komi > 0 ? komi * 2 : undefined, // Store as half-points
+        rules: Object.keys(rules).length > 0 ? rules : undefined,
+        timeControl:
+          timeMode === "realtime"
+            ? {
+                initialTime: minutes * 60_000,
+                increment: incrementSeconds * 1000,
+              }
+            : timeMode === "correspondence"
+              ? {
+                  initialTime: 0,
+                  increment: 0,
+                  correspondenceDays: daysPerMove,
+                }
+              : undefined,
       });
       onGameCreated(gameId);
     } catch (error) {
@@ -38,19 +98,10 @@ export function CreateGameForm({
     }
   };
 
-  const getPieceCount = (size: number) => {
-    const pieceCounts = {
-      3: { flat: 10, capstone: 0 },
-      4: { flat: 15, capstone: 0 },
-      5: { flat: 21, capstone: 1 },
-      6: { flat: 30, capstone: 1 },
-      7: { flat: 40, capstone: 2 },
-      8: { flat: 50, capstone: 2 },
-    };
-    return pieceCounts[size as keyof typeof pieceCounts];
-  };
-
-  const pieces = getPieceCount(boardSize);
+  const standardPieces = getInitialPieces(boardSize);
+  const pieces = customPieces
+    ? { flat: flats, capstone: capstones }
+    : standardPieces;
 
   return (
     <div className="max-w-md mx-auto">
@@ -65,6 +116,78 @@ export function CreateGameForm({
           }}
           className="space-y-6"
         >
+          {/* Opponent */}
+          {challenged ? (
+            <div className="p-3 bg-blue-50 border border-blue-200 rounded-md flex items-center gap-2 text-sm text-blue-800">
+              <span>Challenging</span>
+              <PlayerBadge player={challenged} />
+            </div>
+          ) : (
+            <div>
+              <label
+                htmlFor="opponent"
+                className="block text-sm font-medium text-gray-700 mb-2"
+              >
+                Opponent
+              </label>
+              <select
+                id="opponent"
+                value={opponent}
+                onChange={(e) => setOpponent(e.target.value as OpponentChoice)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+              >
+                <option value="open">Anyone in the lobby</option>
+                <option value="private">Private invite link</option>
+                <option value="computer">Play vs Computer</option>
+              </select>
+              {opponent === "computer" && (
+                <select
+                  value={botLevel}
+                  onChange={(e) => setBotLevel(e.target.value as BotLevel)}
+                  className="w-full mt-2 px-3 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+                >
+                  <option value="easy">Easy</option>
+                  <option value="medium">Medium</option>
+                  <option value="hard">Hard</option>
+                </select>
+              )}
+              <p className="text-sm text-gray-500 mt-1">
+                {opponent === "private"
+                  ? "Hidden from the lobby; share the invite link with your opponent"
+                  : opponent === "computer"
+                    ? "Practice games against the computer are never ranked"
+                    : "Listed in the lobby for anyone to join"}
+              </p>
+            </div>
+          )}
+
+          {/* Colour */}
+          <div>
+            <span className="block text-sm font-medium text-gray-700 mb-2">
+              Play As
+            </span>
+            <div className="flex space-x-2">
+              {COLOR_OPTIONS.map((option) => (
+                <button
+                  key={option.value}
+                  type="button"
+                  onClick={() => setCreatorColor(option.value)}
+                  className={`flex-1 px-3 py-2 rounded-md border text-sm transition-colors ${
+                    creatorColor === option.value
+                      ? "border-blue-500 bg-blue-50 text-blue-700"
+                      : "border-gray-300 text-gray-700 hover:bg-gray-50"
+                  }`}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+            <p className="text-sm text-gray-500 mt-1">
+              White moves first; a random colour is drawn when your opponent
+              joins
+            </p>
+          </div>
+
           {/* Board Size */}
           <div>
             <label
@@ -76,7 +199,14 @@ export function CreateGameForm({
             <select
               id="boardSize"
               value={boardSize}
-              onChange={(e) => setBoardSize(Number(e.target.value))}
+              onChange={(e) => {
+                // Custom reserves start over from the new size's defaults
+                const size = Number(e.target.value);
+                const sizePieces = getInitialPieces(size);
+                setBoardSize(size);
+                setFlats(sizePieces.flat);
+                setCapstones(sizePieces.capstone);
+              }}
               className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
             >
               <option value={3}>3×3 (Quick Game)</option>
@@ -121,13 +251,167 @@ export function CreateGameForm({
             </p>
           </div>
 
+          {/* Rule Variants */}
+          <div>
+            <span className="block text-sm font-medium text-gray-700 mb-2">
+              Rule Variants
+            </span>
+            <div className="space-y-2">
+              <label className="flex items-center">
+                <input
+                  type="checkbox"
+                  checked={customPieces}
+                  onChange={(e) => {
+                    setCustomPieces(e.target.checked);
+                    setFlats(standardPieces.flat);
+                    setCapstones(standardPieces.capstone);
+                  }}
+                  className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                />
+                <span className="ml-2 text-sm text-gray-700">
+                  Custom piece counts
+                </span>
+              </label>
+              {customPieces && (
+                <div className="flex space-x-3 pl-6">
+                  <label className="flex-1 text-sm text-gray-600">
+                    Flat stones
+                    <input
+                      type="number"
+                      min="1"
+                      max="100"
+                      value={flats}
+                      onChange={(e) => setFlats(Number(e.target.value))}
+                      className="w-full mt-1 px-3 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+                    />
+                  </label>
+                  <label className="flex-1 text-sm text-gray-600">
+                    Capstones
+                    <input
+                      type="number"
+                      min="0"
+                      max="10"
+                      value={capstones}
+                      onChange={(e) => setCapstones(Number(e.target.value))}
+                      className="w-full mt-1 px-3 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+                    />
+                  </label>
+                </div>
+              )}
+              <label className="flex items-center">
+                <input
+                  type="checkbox"
+                  checked={noWalls}
+                  onChange={(e) => setNoWalls(e.target.checked)}
+                  className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                />
+                <span className="ml-2 text-sm text-gray-700">
+                  No walls (standing stones may not be placed)
+                </span>
+              </label>
+              <label className="flex items-center">
+                <input
+                  type="checkbox"
+                  checked={dragon}
+                  onChange={(e) => setDragon(e.target.checked)}
+                  className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                />
+                <span className="ml-2 text-sm text-gray-700">
+                  Dragon (capstones cannot flatten walls)
+                </span>
+              </label>
+              <label className="flex items-center">
+                <input
+                  type="checkbox"
+                  checked={openingSwap}
+                  onChange={(e) => setOpeningSwap(e.target.checked)}
+                  className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                />
+                <span className="ml-2 text-sm text-gray-700">
+                  Opening swap (first moves place the opponent's stone)
+                </span>
+              </label>
+            </div>
+            <p className="text-sm text-gray-500 mt-1">
+              Custom counts allow variants such as a capstone on 4×4
+            </p>
+          </div>
+
+          {/* Time Control */}
+          <div>
+            <label
+              htmlFor="timeMode"
+              className="block text-sm font-medium text-gray-700 mb-2"
+            >
+              Time Control
+            </label>
+            <select
+              id="timeMode"
+              value={timeMode}
+              onChange={(e) =>
+                setTimeMode(
+                  e.target.value as "untimed" | "realtime" | "correspondence"
+                )
+              }
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+            >
+              <option value="untimed">Untimed</option>
+              <option value="realtime">Real-time</option>
+              <option value="correspondence">Correspondence</option>
+            </select>
+            {timeMode === "realtime" && (
+              <div className="flex space-x-3 mt-2">
+                <label className="flex-1 text-sm text-gray-600">
+                  Minutes
+                  <input
+                    type="number"
+                    min="1"
+                    max="180"
+                    value={minutes}
+                    onChange={(e) => setMinutes(Number(e.target.value))}
+                    className="w-full mt-1 px-3 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+                  />
+                </label>
+                <label className="flex-1 text-sm text-gray-600">
+                  Increment (seconds)
+                  <input
+                    type="number"
+                    min="0"
+                    max="180"
+                    value={incrementSeconds}
+                    onChange={(e) =>
+                      setIncrementSeconds(Number(e.target.value))
+                    }
+                    className="w-full mt-1 px-3 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+                  />
+                </label>
+              </div>
+            )}
+            {timeMode === "correspondence" && (
+              <select
+                value={daysPerMove}
+                onChange={(e) => setDaysPerMove(Number(e.target.value))}
+                className="w-full mt-2 px-3 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+              >
+                <option value={1}>1 day per move</option>
+                <option value={3}>3 days per move</option>
+                <option value={7}>7 days per move</option>
+                <option value={14}>14 days per move</option>
+              </select>
+            )}
+            <p className="text-sm text-gray-500 mt-1">
+              A player whose clock runs out loses on time
+            </p>
+          </div>
+
           {/* Ranked Game */}
           <div>
             <label className="flex items-center">
               <input
                 type="checkbox"
-                checked={isRanked}
+                checked={isRanked && !isVsComputer}
                 onChange={(e) => setIsRanked(e.target.checked)}
+                disabled={isVsComputer}
                 className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
               />
               <span className="ml-2 text-sm font-medium text-gray-700">
@@ -139,19 +423,50 @@ export function CreateGameForm({
             </p>
           </div>
 
+          {/* Takebacks */}
+          <div>
+            <label className="flex items-center">
+              <input
+                type="checkbox"
+                checked={allowTakebacks && !isRanked && !isVsComputer}
+                onChange={(e) => setAllowTakebacks(e.target.checked)}
+                disabled={isRanked || isVsComputer}
+                className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+              />
+              <span className="ml-2 text-sm font-medium text-gray-700">
+                Allow Takebacks
+              </span>
+            </label>
+            <p className="text-sm text-gray-500 mt-1">
+              {isVsComputer
+                ? "Takebacks are not available against the computer"
+                : isRanked
+                  ? "Takebacks are never allowed in ranked games"
+                  : "Either player may ask the opponent to undo the last move"}
+            </p>
+          </div>
+
           {/* Game Info */}
           <div className="bg-gray-50 rounded-lg p-4">
             <h3 className="text-sm font-medium text-gray-700 mb-2">
               Game Information
             </h3>
             <div className="text-sm text-gray-600 space-y-1">
-              <p>• First two moves: players place opponent's pieces</p>
-              <p>• First move must be a flat piece</p>
+              {openingSwap && (
+                <>
+                  <p>• First two moves: players place opponent's pieces</p>
+                  <p>• First move must be a flat piece</p>
+                </>
+              )}
               <p>• Win by creating a road or controlling the most flats</p>
-              <p>
-                • Standing pieces (walls) block roads but can be flattened by
-                capstones
-              </p>
+              {!noWalls && (
+                <p>
+                  • Standing pieces (walls) block roads
+                  {dragon
+                    ? " and cannot be flattened"
+                    : " but can be flattened by capstones"}
+                </p>
+              )}
             </div>
           </div>
 
@@ -169,7 +484,11 @@ export function CreateGameForm({
               disabled={isCreating}
               className="flex-1 bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
             >
-              {isCreating ? "Creating..." : "Create Game"}
+              {isCreating
+                ? "Creating..."
+                : challenged
+                  ? "Send Challenge"
+                  : "Create Game"}
             </button>
           </div>
         </form>
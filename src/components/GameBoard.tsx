@@ -1,38 +1,86 @@
-import { useQuery, useMutation } from "convex/react";
+import { useQuery, useMutation, useConvex } from "convex/react";
 import { api } from "../../convex/_generated/api";
 import { Id } from "../../convex/_generated/dataModel";
-import { useState, useEffect, useCallback } from "react";
+import { useState, useEffect, useCallback, useMemo, useRef } from "react";
 import { Board3D } from "./Board3D";
 import { Board2D } from "./Board2D";
 import { GameControls } from "./GameControls";
 import { GameInfo } from "./GameInfo";
+import { ChatPanel } from "./ChatPanel";
+import { MoveHistory } from "./MoveHistory";
+import { MoveInput } from "./MoveInput";
+import { StackInspector } from "./StackInspector";
+import {
+  Move,
+  PieceType,
+  Player,
+  applyMove,
+  createInitialState,
+  checkRoad,
+  countedFlats,
+  legalMoves,
+  result,
+  touchedSquares,
+} from "../../convex/lib/tak";
+import { TINUE_DEPTH, summarizeThreats } from "../../convex/lib/threats";
+import { parseMove, replayNotation } from "../../convex/lib/ptn";
+import {
+  PartialMove,
+  addDrop,
+  completeMove,
+  dropTargets,
+  moveSquares,
+} from "../lib/stackMove";
+
+// How often spectators tell the server they are still watching
+const SPECTATOR_HEARTBEAT = 10 * 1000;
+// Longest the board spends looking for Tinue before giving up on it
+const THREAT_TIME_LIMIT = 500;
 
 interface GameBoardProps {
   gameId: Id<"games">;
   onGameEnd: () => void;
+  onGameSelect: (gameId: Id<"games">) => void;
+  onAnalyze: (gameId: Id<"games">) => void;
 }
 
-type PieceType = "flat" | "wall" | "capstone";
-type Player = "white" | "black";
-
-export function GameBoard({ gameId, onGameEnd }: GameBoardProps) {
+export function GameBoard({
+  gameId,
+  onGameEnd,
+  onGameSelect,
+  onAnalyze,
+}: GameBoardProps) {
   const game = useQuery(api.games.getGame, { gameId });
   const moves = useQuery(api.games.getGameMoves, { gameId });
   const currentUser = useQuery(api.auth.loggedInUser);
   const makeMove = useMutation(api.games.makeMove);
   const resignGame = useMutation(api.games.resignGame);
+  const offerDraw = useMutation(api.games.offerDraw);
+  const acceptDraw = useMutation(api.games.acceptDraw);
+  const declineDraw = useMutation(api.games.declineDraw);
+  const requestTakeback = useMutation(api.games.requestTakeback);
+  const acceptTakeback = useMutation(api.games.acceptTakeback);
+  const declineTakeback = useMutation(api.games.declineTakeback);
+  const cancelGame = useMutation(api.games.cancelGame);
+  const offerRematch = useMutation(api.games.offerRematch);
+  const acceptRematch = useMutation(api.games.acceptRematch);
+  const declineRematch = useMutation(api.games.declineRematch);
+  const watchGame = useMutation(api.spectators.watchGame);
+  const leaveGame = useMutation(api.spectators.leaveGame);
+  const convex = useConvex();
 
   const [selectedPieceType, setSelectedPieceType] = useState<PieceType>("flat");
   const [isPlacingPiece, setIsPlacingPiece] = useState(true);
-  const [selectedStack, setSelectedStack] = useState<{
+  const [partialMove, setPartialMove] = useState<PartialMove | null>(null);
+  const [inspectedSquare, setInspectedSquare] = useState<{
     row: number;
     col: number;
-    size: number;
   } | null>(null);
-  const [stackSize, setStackSize] = useState(1);
-  const [dropPattern, setDropPattern] = useState<number[]>([1]);
   const [isLoading, setIsLoading] = useState(false);
   const [use3D, setUse3D] = useState(true);
+  const [showThreats, setShowThreats] = useState(false);
+  // Ply shown on the board while looking back, or null to follow the game
+  const [viewPly, setViewPly] = useState<number | null>(null);
 
   // Get current user's color
   const currentUserId = currentUser?._id;
@@ -44,124 +92,274 @@ export function GameBoard({ gameId, onGameEnd }: GameBoardProps) {
       ? "black"
       : null;
   const isMyTurn = game?.currentPlayer === playerColor;
+  const isCreator = !!game && game.creator.userId === currentUserId;
+  const isSpectator =
+    !!game && currentUser !== undefined && !playerColor && !isCreator;
+
+  // Count this viewer while they watch someone else's game
+  useEffect(() => {
+    if (!isSpectator) return;
+    watchGame({ gameId }).catch(console.error);
+    const interval = setInterval(() => {
+      watchGame({ gameId }).catch(console.error);
+    }, SPECTATOR_HEARTBEAT);
+    return () => {
+      clearInterval(interval);
+      leaveGame({ gameId }).catch(console.error);
+    };
+  }, [isSpectator, gameId, watchGame, leaveGame]);
+
+  // Take both players to a rematch as soon as it starts, but leave people
+  // browsing an old game of a series where they are
+  const hadRematchOnLoad = useRef<boolean | null>(null);
+  useEffect(() => {
+    if (!game) return;
+    if (hadRematchOnLoad.current === null) {
+      hadRematchOnLoad.current = !!game.rematchGameId;
+      return;
+    }
+    if (game.rematchGameId && !hadRematchOnLoad.current && playerColor) {
+      onGameSelect(game.rematchGameId);
+    }
+  }, [game, playerColor, onGameSelect]);
+
+  // Every position of the game so far, for looking back through it. Games
+  // played under older rules may no longer replay; those show the live
+  // board only, rather than failing to render.
+  const boardSize = game?.boardSize;
+  const komi = game?.komi;
+  const rules = game?.rules;
+  const positions = useMemo(() => {
+    if (!boardSize || !moves) return [];
+    try {
+      return replayNotation(
+        createInitialState(boardSize, komi, rules),
+        moves.map((move) => move.notation)
+      );
+    } catch (error) {
+      console.error("Failed to replay game:", error);
+      return null;
+    }
+  }, [boardSize, komi, rules, moves]);
+
+  const plyCount = moves?.length ?? 0;
+  const canBrowseHistory = positions !== null;
+  const isViewingHistory =
+    positions !== null && viewPly !== null && viewPly < plyCount;
+
+  // Squares changed by the move that led to the shown position
+  const lastMoveSquares = useMemo(() => {
+    const shownPly = isViewingHistory ? viewPly : plyCount;
+    const notation = moves?.[shownPly - 1]?.notation;
+    const move = notation ? parseMove(notation) : null;
+    return move ? touchedSquares(move) : undefined;
+  }, [moves, isViewingHistory, viewPly, plyCount]);
+
+  // How a finished game was decided, drawn on its final position
+  const endBoard =
+    game?.status === "finished" && !isViewingHistory ? game.board : null;
+  const winner = game?.winner;
+  const winCondition = game?.winCondition;
+  const roadSquares = useMemo(
+    () =>
+      endBoard &&
+      winCondition === "road" &&
+      (winner === "white" || winner === "black")
+        ? (checkRoad(endBoard, winner) ?? undefined)
+        : undefined,
+    [endBoard, winCondition, winner]
+  );
+  const flatTops = useMemo(
+    () =>
+      endBoard && winCondition === "flat" ? countedFlats(endBoard) : undefined,
+    [endBoard, winCondition]
+  );
+
+  // Road threats in the shown position, only worked out when asked for,
+  // with Tinue looked for as far ahead as the bots look
+  const threatPosition = isViewingHistory ? positions[viewPly] : game;
+  const threats = useMemo(
+    () =>
+      showThreats && threatPosition && !result(threatPosition)
+        ? summarizeThreats(
+            threatPosition,
+            TINUE_DEPTH,
+            Date.now() + THREAT_TIME_LIMIT
+          )
+        : undefined,
+    [showThreats, threatPosition]
+  );
+
+  // Stay on the chosen ply as moves arrive; the last ply means live
+  const showPly = useCallback(
+    (ply: number) => {
+      if (!canBrowseHistory) return;
+      const clamped = Math.max(0, Math.min(ply, plyCount));
+      setViewPly(clamped >= plyCount ? null : clamped);
+    },
+    [plyCount, canBrowseHistory]
+  );
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (
+        target.isContentEditable ||
+        ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName)
+      ) {
+        return;
+      }
+
+      const current = isViewingHistory ? viewPly : plyCount;
+      if (e.key === "ArrowLeft") {
+        showPly(current - 1);
+      } else if (e.key === "ArrowRight") {
+        showPly(current + 1);
+      } else {
+        return;
+      }
+      e.preventDefault();
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [isViewingHistory, viewPly, plyCount, showPly]);
 
   // Reset selection when turn changes
   useEffect(() => {
-    setSelectedStack(null);
+    setPartialMove(null);
     setIsPlacingPiece(true);
   }, [game?.currentPlayer]);
 
+  const legal = useMemo(
+    () =>
+      game && isMyTurn && game.status === "active" ? legalMoves(game) : [],
+    [game, isMyTurn]
+  );
+
+  // Where the selected stack can go next, and how the board looks if the
+  // pieces still carried are all left on the last square
+  const targetSquares = useMemo(
+    () => (partialMove ? dropTargets(legal, partialMove) : []),
+    [legal, partialMove]
+  );
+  const pendingMove = useMemo(
+    () => (partialMove ? completeMove(partialMove) : null),
+    [partialMove]
+  );
+  const preview = useMemo(() => {
+    if (!game || !partialMove || !pendingMove) return null;
+    const outcome = applyMove(game, pendingMove);
+    return outcome.ok
+      ? { board: outcome.state.board, squares: moveSquares(partialMove) }
+      : null;
+  }, [game, partialMove, pendingMove]);
+
+  // Check a move against the shared rules before sending it to the server
+  const submitMove = useCallback(
+    async (move: Move) => {
+      if (!game) return false;
+
+      const outcome = applyMove(game, move);
+      if (!outcome.ok) {
+        alert(outcome.error);
+        return false;
+      }
+
+      setIsLoading(true);
+      try {
+        await makeMove({ gameId, ...move });
+        return true;
+      } catch (error) {
+        console.error("Failed to make move:", error);
+        alert(error instanceof Error ? error.message : "Failed to make move");
+        return false;
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [game, makeMove, gameId]
+  );
+
   const handleSquareClick = useCallback(
     async (row: number, col: number) => {
       if (!game || !playerColor || !isMyTurn || isLoading) return;
+      if (isViewingHistory) return;
 
       if (isPlacingPiece) {
         // Handle piece placement
-        if (game.board[row][col].length > 0) {
-          alert("Position is already occupied!");
+        await submitMove({
+          type: "place",
+          position: { row, col },
+          pieceType: selectedPieceType,
+        });
+        return;
+      }
+
+      const stack = game.board[row][col];
+      const topPiece = stack[stack.length - 1];
+      const isOwnStack = topPiece?.player === playerColor;
+
+      if (partialMove) {
+        const isOrigin =
+          partialMove.from.row === row && partialMove.from.col === col;
+        if (isOrigin) {
+          // Clicking the stack again takes back the drops, then deselects
+          setPartialMove(
+            partialMove.drops.length > 0
+              ? { ...partialMove, direction: null, drops: [] }
+              : null
+          );
           return;
         }
 
-        setIsLoading(true);
-        try {
-          await makeMove({
-            gameId,
-            type: "place",
-            position: { row, col },
-            pieceType: selectedPieceType,
-          });
-        } catch (error) {
-          console.error("Failed to make move:", error);
-          alert(error instanceof Error ? error.message : "Failed to make move");
-        } finally {
-          setIsLoading(false);
+        const next = addDrop(legal, partialMove, { row, col });
+        if (next) {
+          setPartialMove(next);
+          return;
         }
-      } else {
-        // Handle stack movement
-        if (!selectedStack) {
-          // Select a stack to move
-          const stack = game.board[row][col];
-          if (stack.length === 0) {
-            alert("No pieces to move!");
-            return;
-          }
-
-          const topPiece = stack[stack.length - 1];
-          if (topPiece.player !== playerColor) {
-            alert("You don't control this stack!");
-            return;
-          }
-
-          setSelectedStack({ row, col, size: stack.length });
-          setStackSize(Math.min(1, stack.length, game.boardSize));
-          setDropPattern([1]);
-        } else {
-          // Move the selected stack
-          if (selectedStack.row === row && selectedStack.col === col) {
-            // Clicking the same position - deselect
-            setSelectedStack(null);
-            return;
-          }
-
-          // Validate move direction
-          const rowDiff = row - selectedStack.row;
-          const colDiff = col - selectedStack.col;
-
-          if (rowDiff !== 0 && colDiff !== 0) {
-            alert("Moves must be in straight lines!");
-            return;
-          }
-
-          const distance = Math.abs(rowDiff) + Math.abs(colDiff);
-          if (distance > stackSize) {
-            alert("Cannot move that far with current stack size!");
-            return;
-          }
-
-          // Adjust drop pattern to match distance
-          if (dropPattern.length !== distance) {
-            const newPattern = Array(distance).fill(1);
-            newPattern[distance - 1] = stackSize - (distance - 1);
-            setDropPattern(newPattern);
-          }
-
-          setIsLoading(true);
-          try {
-            await makeMove({
-              gameId,
-              type: "move",
-              from: { row: selectedStack.row, col: selectedStack.col },
-              to: { row, col },
-              stackSize,
-              dropPattern,
-            });
-            setSelectedStack(null);
-          } catch (error) {
-            console.error("Failed to make move:", error);
-            alert(
-              error instanceof Error ? error.message : "Failed to make move"
-            );
-          } finally {
-            setIsLoading(false);
-          }
+        if (partialMove.drops.length > 0 || !isOwnStack) {
+          alert("The stack can't drop there");
+          return;
         }
       }
+
+      // Select a stack to move, carrying as many pieces as allowed
+      if (stack.length === 0) {
+        alert("No pieces to move!");
+        return;
+      }
+      if (!isOwnStack) {
+        alert("You don't control this stack!");
+        return;
+      }
+      setPartialMove({
+        from: { row, col },
+        carry: Math.min(stack.length, game.boardSize),
+        direction: null,
+        drops: [],
+      });
     },
     [
       game,
       playerColor,
       isMyTurn,
       isLoading,
+      isViewingHistory,
       isPlacingPiece,
       selectedPieceType,
-      selectedStack,
-      stackSize,
-      dropPattern,
-      makeMove,
-      gameId,
+      partialMove,
+      legal,
+      submitMove,
     ]
   );
 
+  const handleConfirmMove = useCallback(async () => {
+    if (!pendingMove) return;
+    if (await submitMove(pendingMove)) {
+      setPartialMove(null);
+    }
+  }, [pendingMove, submitMove]);
+
   const handleResign = useCallback(async () => {
     if (window.confirm("Are you sure you want to resign?")) {
       try {
@@ -174,6 +372,117 @@ export function GameBoard({ gameId, onGameEnd }: GameBoardProps) {
     }
   }, [resignGame, gameId, onGameEnd]);
 
+  const handleDrawAction = useCallback(
+    async (action: "offer" | "accept" | "decline") => {
+      const mutation =
+        action === "offer"
+          ? offerDraw
+          : action === "accept"
+            ? acceptDraw
+            : declineDraw;
+      try {
+        await mutation({ gameId });
+      } catch (error) {
+        console.error(`Failed to ${action} draw:`, error);
+        alert(error instanceof Error ? error.message : "Draw action failed");
+      }
+    },
+    [offerDraw, acceptDraw, declineDraw, gameId]
+  );
+
+  const handleTakebackAction = useCallback(
+    async (action: "request" | "accept" | "decline") => {
+      const mutation =
+        action === "request"
+          ? requestTakeback
+          : action === "accept"
+            ? acceptTakeback
+            : declineTakeback;
+      try {
+        await mutation({ gameId });
+      } catch (error) {
+        console.error(`Failed to ${action} takeback:`, error);
+        alert(
+          error instanceof Error ? error.message : "Takeback action failed"
+        );
+      }
+    },
+    [requestTakeback, acceptTakeback, declineTakeback, gameId]
+  );
+
+  const handleRematchAction = useCallback(
+    async (action: "offer" | "accept" | "decline") => {
+      try {
+        if (action === "offer") {
+          await offerRematch({ gameId });
+        } else if (action === "accept") {
+          onGameSelect(await acceptRematch({ gameId }));
+        } else {
+          await declineRematch({ gameId });
+        }
+      } catch (error) {
+        console.error(`Failed to ${action} rematch:`, error);
+        alert(error instanceof Error ? error.message : "Rematch action failed");
+      }
+    },
+    [offerRematch, acceptRematch, declineRematch, gameId, onGameSelect]
+  );
+
+  const handleCancel = useCallback(async () => {
+    if (window.confirm("Cancel this game?")) {
+      try {
+        await cancelGame({ gameId });
+        onGameEnd();
+      } catch (error) {
+        console.error("Failed to cancel game:", error);
+        alert(error instanceof Error ? error.message : "Failed to cancel game");
+      }
+    }
+  }, [cancelGame, gameId, onGameEnd]);
+
+  const inviteLink = game?.inviteToken
+    ? `${window.location.origin}${window.location.pathname}?game=${gameId}&invite=${game.inviteToken}`
+    : null;
+
+  const handleCopyInvite = useCallback(async () => {
+    if (!inviteLink) return;
+    try {
+      await navigator.clipboard.writeText(inviteLink);
+    } catch (error) {
+      console.error("Failed to copy invite link:", error);
+      window.prompt("Copy this invite link:", inviteLink);
+    }
+  }, [inviteLink]);
+
+  const handleExport = useCallback(async () => {
+    try {
+      const ptn = await convex.query(api.ptn.exportGame, { gameId });
+      const url = URL.createObjectURL(new Blob([ptn], { type: "text/plain" }));
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `tak-${gameId}.ptn`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error("Failed to export game:", error);
+      alert("Failed to export game. Please try again.");
+    }
+  }, [convex, gameId]);
+
+  if (game === null) {
+    return (
+      <div className="text-center py-8 bg-white rounded-lg shadow-sm">
+        <p className="text-gray-500">This game no longer exists</p>
+        <button
+          onClick={onGameEnd}
+          className="mt-3 text-blue-600 hover:text-blue-800"
+        >
+          Back to Lobby
+        </button>
+      </div>
+    );
+  }
+
   if (!game) {
     return (
       <div className="flex justify-center items-center min-h-96">
@@ -182,6 +491,13 @@ export function GameBoard({ gameId, onGameEnd }: GameBoardProps) {
     );
   }
 
+  const shownPosition = isViewingHistory ? positions[viewPly] : game;
+  const boardShown =
+    preview && !isViewingHistory ? preview.board : shownPosition.board;
+  const selectedStackSize = partialMove
+    ? game.board[partialMove.from.row][partialMove.from.col].length
+    : 0;
+
   return (
     <div className="max-w-7xl mx-auto">
       {/* Game Status */}
@@ -196,7 +512,17 @@ export function GameBoard({ gameId, onGameEnd }: GameBoardProps) {
           winner={game.winner}
           winCondition={game.winCondition}
           komi={game.komi}
+          rules={game.rules}
+          threats={threats}
           isRanked={game.isRanked}
+          timeControl={game.timeControl}
+          whiteTimeRemaining={game.whiteTimeRemaining}
+          blackTimeRemaining={game.blackTimeRemaining}
+          lastMoveAt={game.lastMoveAt}
+          white={game.white}
+          black={game.black}
+          viewerCount={game.viewerCount}
+          challenged={game.challenged}
         />
       </div>
 
@@ -207,6 +533,15 @@ export function GameBoard({ gameId, onGameEnd }: GameBoardProps) {
             {/* Board Type Toggle */}
             <div className="flex justify-between items-center mb-4">
               <h3 className="text-lg font-medium text-gray-900">Game Board</h3>
+              <label className="flex items-center text-sm text-gray-600">
+                <input
+                  type="checkbox"
+                  checked={showThreats}
+                  onChange={(e) => setShowThreats(e.target.checked)}
+                  className="mr-2"
+                />
+                Show road threats
+              </label>
               <div className="flex items-center space-x-2">
                 <span className="text-sm text-gray-600">2D</span>
                 <label className="relative inline-flex items-center cursor-pointer">
@@ -222,51 +557,146 @@ export function GameBoard({ gameId, onGameEnd }: GameBoardProps) {
               </div>
             </div>
 
+            {isViewingHistory && (
+              <div className="flex justify-between items-center mb-4 p-3 bg-yellow-50 border border-yellow-200 rounded-md">
+                <p className="text-sm text-yellow-800">
+                  Showing the board after move {viewPly} of {plyCount}
+                </p>
+                <button
+                  onClick={() => setViewPly(null)}
+                  className="text-sm bg-yellow-600 text-white py-1 px-3 rounded-md hover:bg-yellow-700 transition-colors"
+                >
+                  Back to Live
+                </button>
+              </div>
+            )}
+
             <div className="aspect-square">
               {use3D ? (
                 <Board3D
                   boardSize={game.boardSize}
-                  board={game.board}
+                  board={boardShown}
                   onSquareClick={(row, col) => {
                     void handleSquareClick(row, col);
                   }}
-                  selectedStack={selectedStack}
-                  isMyTurn={isMyTurn && !isLoading}
+                  onSquareInspect={setInspectedSquare}
+                  selectedStack={partialMove?.from}
+                  targetSquares={targetSquares}
+                  ghostSquares={preview?.squares}
+                  lastMoveSquares={lastMoveSquares}
+                  roadSquares={roadSquares}
+                  threatSquares={threats?.squares}
+                  countedFlats={flatTops}
+                  isMyTurn={isMyTurn && !isLoading && !isViewingHistory}
                   isLoading={isLoading}
+                  readOnly={isSpectator || isViewingHistory}
                 />
               ) : (
                 <Board2D
                   boardSize={game.boardSize}
-                  board={game.board}
+                  board={boardShown}
                   onSquareClick={(row, col) => {
                     void handleSquareClick(row, col);
                   }}
-                  selectedStack={selectedStack}
-                  isMyTurn={isMyTurn && !isLoading}
+                  onSquareInspect={setInspectedSquare}
+                  selectedStack={partialMove?.from}
+                  targetSquares={targetSquares}
+                  ghostSquares={preview?.squares}
+                  lastMoveSquares={lastMoveSquares}
+                  roadSquares={roadSquares}
+                  threatSquares={threats?.squares}
+                  countedFlats={flatTops}
+                  isMyTurn={isMyTurn && !isLoading && !isViewingHistory}
                   isLoading={isLoading}
+                  readOnly={isSpectator || isViewingHistory}
                 />
               )}
             </div>
+
+            <div className="mt-4 p-3 border border-gray-200 rounded-md">
+              <StackInspector
+                board={shownPosition.board}
+                square={inspectedSquare}
+              />
+            </div>
+
+            {threats && threats.squares.length > 0 && (
+              <p className="mt-3 text-sm text-center text-red-700">
+                Red squares would complete a road next move
+              </p>
+            )}
+            {roadSquares && (
+              <p className="mt-3 text-sm text-center text-emerald-700">
+                The winning road is highlighted
+              </p>
+            )}
+            {flatTops && (
+              <p className="mt-3 text-sm text-center text-gray-700">
+                Counted flats:{" "}
+                <span className="text-sky-700">
+                  White {flatTops.white.length}
+                  {game.komi ? ` + ${game.komi / 2} komi` : ""}
+                </span>
+                ,{" "}
+                <span className="text-rose-700">
+                  Black {flatTops.black.length}
+                </span>
+              </p>
+            )}
           </div>
         </div>
 
         {/* Game Controls */}
         <div className="lg:col-span-1">
           <div className="bg-white rounded-lg shadow-lg p-4 space-y-4">
-            <GameControls
-              isMyTurn={isMyTurn}
-              isLoading={isLoading}
-              isPlacingPiece={isPlacingPiece}
-              onModeChange={setIsPlacingPiece}
-              selectedPieceType={selectedPieceType}
-              onPieceTypeChange={setSelectedPieceType}
-              selectedStack={selectedStack}
-              stackSize={stackSize}
-              onStackSizeChange={setStackSize}
-              dropPattern={dropPattern}
-              onDropPatternChange={setDropPattern}
-              maxStackSize={game.boardSize}
-            />
+            {isSpectator ? (
+              <div className="p-3 bg-gray-50 border border-gray-200 rounded-md">
+                <p className="text-sm text-gray-700">
+                  👁 You are spectating this game
+                </p>
+              </div>
+            ) : (
+              <>
+                {game.status === "active" && (
+                  <MoveInput
+                    disabled={!isMyTurn || isLoading || isViewingHistory}
+                    onSubmit={submitMove}
+                  />
+                )}
+                <GameControls
+                  isMyTurn={isMyTurn}
+                  isLoading={isLoading}
+                  isPlacingPiece={isPlacingPiece}
+                  onModeChange={(isPlacing) => {
+                    setIsPlacingPiece(isPlacing);
+                    setPartialMove(null);
+                  }}
+                  selectedPieceType={selectedPieceType}
+                  onPieceTypeChange={setSelectedPieceType}
+                  allowWalls={!game.rules?.noWalls}
+                  selectedStackSize={selectedStackSize}
+                  carry={partialMove?.carry ?? 0}
+                  onCarryChange={(carry) =>
+                    setPartialMove(
+                      (current) =>
+                        current && {
+                          ...current,
+                          carry,
+                          direction: null,
+                          drops: [],
+                        }
+                    )
+                  }
+                  drops={partialMove?.drops ?? []}
+                  canConfirm={!!preview && !isLoading}
+                  onConfirm={() => {
+                    void handleConfirmMove();
+                  }}
+                  onCancel={() => setPartialMove(null)}
+                  maxStackSize={game.boardSize}
+                />
+              </>
+            )}
 
             {/* Piece Counts */}
             <div>
@@ -276,42 +706,239 @@ export function GameBoard({ gameId, onGameEnd }: GameBoardProps) {
               <div className="text-sm space-y-1">
                 <div className="flex justify-between">
                   <span>White Flats:</span>
-                  <span>{game.whitePieces.flat}</span>
+                  <span>{shownPosition.whitePieces.flat}</span>
                 </div>
                 <div className="flex justify-between">
                   <span>White Capstones:</span>
-                  <span>{game.whitePieces.capstone}</span>
+                  <span>{shownPosition.whitePieces.capstone}</span>
                 </div>
                 <div className="flex justify-between">
                   <span>Black Flats:</span>
-                  <span>{game.blackPieces.flat}</span>
+                  <span>{shownPosition.blackPieces.flat}</span>
                 </div>
                 <div className="flex justify-between">
                   <span>Black Capstones:</span>
-                  <span>{game.blackPieces.capstone}</span>
+                  <span>{shownPosition.blackPieces.capstone}</span>
                 </div>
               </div>
             </div>
 
-            {/* Move History */}
-            <div>
-              <h4 className="text-sm font-medium text-gray-700 mb-2">
-                Move History
-              </h4>
-              <div className="max-h-32 overflow-y-auto text-xs space-y-1">
-                {moves?.slice(-10).map((move) => (
-                  <div key={move._id} className="flex justify-between">
-                    <span>{move.moveNumber}.</span>
-                    <span className="capitalize">{move.player}</span>
-                    <span className="font-mono">{move.notation}</span>
+            <MoveHistory
+              moves={moves ?? []}
+              whiteName={game.white?.displayName ?? "White"}
+              blackName={game.black?.displayName ?? "Black"}
+              viewPly={isViewingHistory ? viewPly : plyCount}
+              onSelect={showPly}
+            />
+            {!canBrowseHistory && (
+              <p className="text-xs text-gray-500">
+                This game's moves no longer replay under the current rules, so
+                earlier positions can't be shown
+              </p>
+            )}
+
+            <button
+              onClick={() => {
+                void handleExport();
+              }}
+              className="w-full px-4 py-2 border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 transition-colors"
+            >
+              Export PTN
+            </button>
+            {(game.status === "finished" || game.status === "analysis") && (
+              <button
+                onClick={() => onAnalyze(gameId)}
+                className="w-full px-4 py-2 border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 transition-colors"
+              >
+                Analyze Game
+              </button>
+            )}
+
+            {/* Rematch and series */}
+            {game.status === "finished" &&
+              playerColor &&
+              game.black &&
+              !game.bot &&
+              !game.rematchGameId &&
+              (game.rematchOfferedBy &&
+              game.rematchOfferedBy !== playerColor ? (
+                <div className="p-3 bg-green-50 border border-green-200 rounded-md">
+                  <p className="text-sm text-green-800 mb-2">
+                    Your opponent offers a rematch
+                  </p>
+                  <div className="flex space-x-2">
+                    <button
+                      onClick={() => {
+                        void handleRematchAction("accept");
+                      }}
+                      className="flex-1 bg-green-600 text-white py-1 px-2 rounded-md text-sm hover:bg-green-700 transition-colors"
+                    >
+                      Accept
+                    </button>
+                    <button
+                      onClick={() => {
+                        void handleRematchAction("decline");
+                      }}
+                      className="flex-1 border border-gray-300 text-gray-700 py-1 px-2 rounded-md text-sm hover:bg-gray-50 transition-colors"
+                    >
+                      Decline
+                    </button>
                   </div>
-                ))}
+                </div>
+              ) : (
+                <button
+                  onClick={() => {
+                    void handleRematchAction("offer");
+                  }}
+                  disabled={game.rematchOfferedBy === playerColor}
+                  className="w-full bg-green-600 text-white py-2 px-4 rounded-md hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                >
+                  {game.rematchOfferedBy === playerColor
+                    ? "Rematch offered"
+                    : "Offer Rematch"}
+                </button>
+              ))}
+            {(game.previousGameId || game.rematchGameId) && (
+              <div className="flex justify-between text-sm">
+                {game.previousGameId ? (
+                  <button
+                    onClick={() => onGameSelect(game.previousGameId!)}
+                    className="text-blue-600 hover:text-blue-800"
+                  >
+                    ← Previous game
+                  </button>
+                ) : (
+                  <span />
+                )}
+                {game.rematchGameId && (
+                  <button
+                    onClick={() => onGameSelect(game.rematchGameId!)}
+                    className="text-blue-600 hover:text-blue-800"
+                  >
+                    Rematch →
+                  </button>
+                )}
               </div>
-            </div>
+            )}
+
+            {/* Waiting for an opponent */}
+            {game.status === "waiting" && isCreator && (
+              <div className="space-y-2">
+                {inviteLink && (
+                  <div className="p-3 bg-blue-50 border border-blue-200 rounded-md">
+                    <p className="text-sm text-blue-800 mb-2">
+                      Private game: send this link to your opponent
+                    </p>
+                    <input
+                      readOnly
+                      value={inviteLink}
+                      onFocus={(e) => e.target.select()}
+                      className="w-full px-2 py-1 text-xs border border-gray-300 rounded-md mb-2"
+                    />
+                    <button
+                      onClick={() => {
+                        void handleCopyInvite();
+                      }}
+                      className="w-full bg-blue-600 text-white py-1 px-2 rounded-md text-sm hover:bg-blue-700 transition-colors"
+                    >
+                      Copy Invite Link
+                    </button>
+                  </div>
+                )}
+                <button
+                  onClick={() => {
+                    void handleCancel();
+                  }}
+                  className="w-full border border-red-300 text-red-700 py-2 px-4 rounded-md hover:bg-red-50 transition-colors"
+                >
+                  Cancel Game
+                </button>
+              </div>
+            )}
 
             {/* Actions */}
             {game.status === "active" && playerColor && (
               <div className="space-y-2">
+                {game.bot ? null : game.drawOfferedBy &&
+                  game.drawOfferedBy !== playerColor ? (
+                  <div className="p-3 bg-blue-50 border border-blue-200 rounded-md">
+                    <p className="text-sm text-blue-800 mb-2">
+                      Your opponent offers a draw
+                    </p>
+                    <div className="flex space-x-2">
+                      <button
+                        onClick={() => {
+                          void handleDrawAction("accept");
+                        }}
+                        className="flex-1 bg-blue-600 text-white py-1 px-2 rounded-md text-sm hover:bg-blue-700 transition-colors"
+                      >
+                        Accept
+                      </button>
+                      <button
+                        onClick={() => {
+                          void handleDrawAction("decline");
+                        }}
+                        className="flex-1 border border-gray-300 text-gray-700 py-1 px-2 rounded-md text-sm hover:bg-gray-50 transition-colors"
+                      >
+                        Decline
+                      </button>
+                    </div>
+                  </div>
+                ) : (
+                  <button
+                    onClick={() => {
+                      void handleDrawAction("offer");
+                    }}
+                    disabled={game.drawOfferedBy === playerColor}
+                    className="w-full border border-gray-300 text-gray-700 py-2 px-4 rounded-md hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                  >
+                    {game.drawOfferedBy === playerColor
+                      ? "Draw offered"
+                      : "Offer Draw"}
+                  </button>
+                )}
+                {game.allowTakebacks &&
+                  (game.takebackRequestedBy &&
+                  game.takebackRequestedBy !== playerColor ? (
+                    <div className="p-3 bg-yellow-50 border border-yellow-200 rounded-md">
+                      <p className="text-sm text-yellow-800 mb-2">
+                        Your opponent asks to take back the last move
+                      </p>
+                      <div className="flex space-x-2">
+                        <button
+                          onClick={() => {
+                            void handleTakebackAction("accept");
+                          }}
+                          className="flex-1 bg-yellow-600 text-white py-1 px-2 rounded-md text-sm hover:bg-yellow-700 transition-colors"
+                        >
+                          Allow
+                        </button>
+                        <button
+                          onClick={() => {
+                            void handleTakebackAction("decline");
+                          }}
+                          className="flex-1 border border-gray-300 text-gray-700 py-1 px-2 rounded-md text-sm hover:bg-gray-50 transition-colors"
+                        >
+                          Refuse
+                        </button>
+                      </div>
+                    </div>
+                  ) : (
+                    <button
+                      onClick={() => {
+                        void handleTakebackAction("request");
+                      }}
+                      disabled={
+                        game.takebackRequestedBy === playerColor ||
+                        game.moveCount === 0
+                      }
+                      className="w-full border border-gray-300 text-gray-700 py-2 px-4 rounded-md hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                    >
+                      {game.takebackRequestedBy === playerColor
+                        ? "Takeback requested"
+                        : "Request Takeback"}
+                    </button>
+                  ))}
                 <button
                   onClick={() => {
                     void handleResign();
@@ -323,6 +950,23 @@ export function GameBoard({ gameId, onGameEnd }: GameBoardProps) {
               </div>
             )}
           </div>
+
+          {/* Chat */}
+          <div className="bg-white rounded-lg shadow-lg p-4 mt-6">
+            <ChatPanel
+              key={isSpectator ? "spectator" : "player"}
+              gameId={gameId}
+              channels={
+                isSpectator
+                  ? ["spectators", "players"]
+                  : game.status === "active"
+                    ? ["players"]
+                    : ["players", "spectators"]
+              }
+              writableChannels={isSpectator ? ["spectators"] : ["players"]}
+              currentUserId={currentUserId}
+            />
+          </div>
         </div>
       </div>
     </div>
@@ -7,11 +7,14 @@ interface GameControlsProps {
   onModeChange: (isPlacing: boolean) => void;
   selectedPieceType: "flat" | "wall" | "capstone";
   onPieceTypeChange: (type: "flat" | "wall" | "capstone") => void;
-  selectedStack: { row: number; col: number; size: number } | null;
-  stackSize: number;
-  onStackSizeChange: (size: number) => void;
-  dropPattern: number[];
-  onDropPatternChange: (pattern: number[]) => void;
+  allowWalls: boolean; // False in no-wall games
+  selectedStackSize: number; // 0 when no stack is selected
+  carry: number;
+  onCarryChange: (carry: number) => void;
+  drops: number[]; // Pieces dropped on each square so far
+  canConfirm: boolean;
+  onConfirm: () => void;
+  onCancel: () => void;
   maxStackSize: number;
 }
 
@@ -22,13 +25,19 @@ export function GameControls({
   onModeChange,
   selectedPieceType,
   onPieceTypeChange,
-  selectedStack,
-  stackSize,
-  onStackSizeChange,
-  dropPattern,
-  onDropPatternChange,
+  allowWalls,
+  selectedStackSize,
+  carry,
+  onCarryChange,
+  drops,
+  canConfirm,
+  onConfirm,
+  onCancel,
   maxStackSize,
 }: GameControlsProps) {
+  const maxCarry = Math.min(selectedStackSize, maxStackSize);
+  const inHand = carry - drops.reduce((sum, count) => sum + count, 0);
+
   return (
     <div className="space-y-4">
       <h3 className="text-lg font-medium text-gray-900">Game Controls</h3>
@@ -87,22 +96,24 @@ export function GameControls({
               />
               Flat Stone
             </label>
-            <label className="flex items-center">
-              <input
-                type="radio"
-                name="pieceType"
-                value="wall"
-                checked={selectedPieceType === "wall"}
-                onChange={(e) =>
-                  onPieceTypeChange(
-                    e.target.value as "flat" | "wall" | "capstone"
-                  )
-                }
-                disabled={!isMyTurn || isLoading}
-                className="mr-2"
-              />
-              Standing Stone (Wall)
-            </label>
+            {allowWalls && (
+              <label className="flex items-center">
+                <input
+                  type="radio"
+                  name="pieceType"
+                  value="wall"
+                  checked={selectedPieceType === "wall"}
+                  onChange={(e) =>
+                    onPieceTypeChange(
+                      e.target.value as "flat" | "wall" | "capstone"
+                    )
+                  }
+                  disabled={!isMyTurn || isLoading}
+                  className="mr-2"
+                />
+                Standing Stone (Wall)
+              </label>
+            )}
             <label className="flex items-center">
               <input
                 type="radio"
@@ -124,62 +135,52 @@ export function GameControls({
       )}
 
       {/* Stack Movement Controls (only when moving) */}
-      {!isPlacingPiece && selectedStack && (
+      {!isPlacingPiece && selectedStackSize > 0 && (
         <div className="space-y-3">
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-2">
-              Stack Size to Move: {stackSize}
+              Pieces to Carry: {carry}
             </label>
             <input
               type="range"
               min="1"
-              max={Math.min(selectedStack.size, maxStackSize)}
-              value={stackSize}
-              onChange={(e) => onStackSizeChange(Number(e.target.value))}
-              disabled={!isMyTurn || isLoading}
+              max={maxCarry}
+              value={carry}
+              onChange={(e) => onCarryChange(Number(e.target.value))}
+              disabled={!isMyTurn || isLoading || maxCarry === 1}
               className="w-full"
             />
             <div className="flex justify-between text-xs text-gray-500">
               <span>1</span>
-              <span>{Math.min(selectedStack.size, maxStackSize)}</span>
+              <span>{maxCarry}</span>
             </div>
           </div>
 
-          <div>
-            <label className="block text-sm font-medium text-gray-700 mb-2">
-              Drop Pattern
-            </label>
-            <div className="text-xs text-gray-600 mb-2">
-              How many pieces to drop at each position: [
-              {dropPattern.join(", ")}]
-            </div>
-            <div className="flex space-x-1">
-              {dropPattern.map((count, index) => (
-                <input
-                  key={index}
-                  type="number"
-                  min="1"
-                  max={stackSize}
-                  value={count}
-                  onChange={(e) => {
-                    const newPattern = [...dropPattern];
-                    newPattern[index] = Number(e.target.value);
-                    onDropPatternChange(newPattern);
-                  }}
-                  disabled={!isMyTurn || isLoading}
-                  className="w-12 px-1 py-1 text-xs border border-gray-300 rounded"
-                />
-              ))}
-            </div>
-            <p className="text-xs text-gray-500 mt-1">
-              Total: {dropPattern.reduce((sum, count) => sum + count, 0)} /{" "}
-              {stackSize}
-            </p>
+          <div className="text-xs text-gray-600">
+            {drops.length === 0
+              ? "Click a highlighted square to drop a piece there"
+              : `Dropped ${drops.join(", ")} with ${inHand} in hand. Click again to drop more, or confirm to leave the rest on the last square.`}
+          </div>
+
+          <div className="flex space-x-2">
+            <button
+              onClick={onConfirm}
+              disabled={!canConfirm}
+              className="flex-1 bg-blue-600 text-white py-1 px-2 rounded-md text-sm hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              Confirm Move
+            </button>
+            <button
+              onClick={onCancel}
+              className="flex-1 border border-gray-300 text-gray-700 py-1 px-2 rounded-md text-sm hover:bg-gray-50 transition-colors"
+            >
+              Cancel
+            </button>
           </div>
         </div>
       )}
 
-      {!isPlacingPiece && !selectedStack && (
+      {!isPlacingPiece && selectedStackSize === 0 && (
         <div className="text-sm text-gray-500">
           Click on a stack you control to select it for movement
         </div>
@@ -1,4 +1,9 @@
-import React from "react";
+import React, { useEffect, useState } from "react";
+import { RuleVariants } from "../../convex/lib/tak";
+import { ThreatSummary } from "../../convex/lib/threats";
+import { describeRules } from "../lib/rules";
+import { TimeControl, formatClock, formatTimeControl } from "../lib/time";
+import { PlayerBadge, PlayerSummary } from "./PlayerBadge";
 
 interface GameInfoProps {
   boardSize: number;
@@ -8,9 +13,19 @@ interface GameInfoProps {
   playerColor: "white" | "black" | null;
   isMyTurn: boolean;
   winner?: "white" | "black" | "draw";
-  winCondition?: "road" | "flat" | "resign";
+  winCondition?: "road" | "flat" | "resign" | "time" | "agreement";
   komi?: number;
+  rules?: RuleVariants;
+  threats?: ThreatSummary; // Only when the player asked to see them
   isRanked: boolean;
+  timeControl?: TimeControl;
+  whiteTimeRemaining?: number;
+  blackTimeRemaining?: number;
+  lastMoveAt?: number;
+  white?: PlayerSummary;
+  black?: PlayerSummary;
+  viewerCount?: number;
+  challenged?: PlayerSummary;
 }
 
 export function GameInfo({
@@ -23,8 +38,36 @@ export function GameInfo({
   winner,
   winCondition,
   komi,
+  rules,
+  threats,
   isRanked,
+  timeControl,
+  whiteTimeRemaining,
+  blackTimeRemaining,
+  lastMoveAt,
+  white,
+  black,
+  viewerCount,
+  challenged,
 }: GameInfoProps) {
+  const [now, setNow] = useState(() => Date.now());
+  const isClockRunning =
+    status === "active" && !!timeControl && lastMoveAt !== undefined;
+
+  // Tick the running clock locally; the server holds the real times
+  useEffect(() => {
+    if (!isClockRunning) return;
+    const interval = setInterval(() => setNow(Date.now()), 250);
+    return () => clearInterval(interval);
+  }, [isClockRunning]);
+
+  const getClockTime = (player: "white" | "black") => {
+    const stored = player === "white" ? whiteTimeRemaining : blackTimeRemaining;
+    if (stored === undefined) return undefined;
+    if (!isClockRunning || currentPlayer !== player) return stored;
+    return stored - (now - (lastMoveAt ?? now));
+  };
+
   const getStatusColor = (status: string) => {
     switch (status) {
       case "waiting":
@@ -57,6 +100,21 @@ export function GameInfo({
               </span>
             )}
           </div>
+          <div className="flex items-center gap-2 mb-2 text-sm text-gray-600">
+            <span>⚪</span>
+            {white ? (
+              <PlayerBadge player={white} />
+            ) : (
+              <span className="italic">waiting…</span>
+            )}
+            <span className="mx-1">vs</span>
+            <span>⚫</span>
+            {black ? (
+              <PlayerBadge player={black} />
+            ) : (
+              <span className="italic">waiting…</span>
+            )}
+          </div>
           <div className="flex items-center gap-3 text-sm text-gray-600">
             <span>Move {moveCount}</span>
             <span
@@ -69,6 +127,43 @@ export function GameInfo({
                 Komi: {komi / 2}
               </span>
             )}
+            {describeRules(rules).map(({ label, detail }) => (
+              <span
+                key={label}
+                title={detail}
+                className="text-xs px-2 py-1 bg-teal-100 text-teal-700 rounded"
+              >
+                {label}
+              </span>
+            ))}
+            {threats?.tinue ? (
+              <span
+                title="Every reply still leaves a forced road within a few moves"
+                className="text-xs px-2 py-1 bg-red-100 text-red-700 font-semibold rounded"
+              >
+                ⚠ Tinue: {threats.tinue} cannot be stopped
+              </span>
+            ) : (
+              threats?.tak.map((player) => (
+                <span
+                  key={player}
+                  title="This player could complete a road with their next move"
+                  className="text-xs px-2 py-1 bg-amber-100 text-amber-800 font-semibold rounded"
+                >
+                  ⚠ Tak: {player} threatens a road
+                </span>
+              ))
+            )}
+            {timeControl && (
+              <span className="text-xs px-2 py-1 bg-orange-100 text-orange-700 rounded">
+                ⏱ {formatTimeControl(timeControl)}
+              </span>
+            )}
+            {!!viewerCount && (
+              <span className="text-xs text-gray-500">
+                👁 {viewerCount} watching
+              </span>
+            )}
           </div>
         </div>
 
@@ -93,6 +188,38 @@ export function GameInfo({
         </div>
       </div>
 
+      {timeControl && (
+        <div className="mt-4 grid grid-cols-2 gap-3">
+          {(["white", "black"] as const).map((player) => {
+            const time = getClockTime(player);
+            const isRunning = isClockRunning && currentPlayer === player;
+            return (
+              <div
+                key={player}
+                className={`flex justify-between items-center px-3 py-2 rounded-md border ${
+                  isRunning
+                    ? "border-green-400 bg-green-50"
+                    : "border-gray-200 bg-gray-50"
+                }`}
+              >
+                <span className="text-sm font-medium capitalize">
+                  {player === "white" ? "⚪" : "⚫"} {player}
+                </span>
+                <span
+                  className={`font-mono text-lg ${
+                    time !== undefined && time < 10_000
+                      ? "text-red-600"
+                      : "text-gray-900"
+                  }`}
+                >
+                  {time !== undefined ? formatClock(time) : "--:--"}
+                </span>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
       {winner && (
         <div className="mt-4 p-3 bg-green-100 border border-green-300 rounded-md">
           <div className="flex items-center gap-2">
@@ -100,7 +227,9 @@ export function GameInfo({
               {winner === "white" ? "⚪" : winner === "black" ? "⚫" : "🤝"}
             </span>
             <p className="text-green-800 font-medium">
-              {winner === "draw" ? "Game ended in a draw!" : `${winner} wins!`}
+              {winner === "draw"
+                ? "Game ended in a draw!"
+                : `${(winner === "white" ? white : black)?.displayName ?? winner} wins!`}
               {winCondition && (
                 <span className="ml-1 text-sm">
                   (
@@ -108,7 +237,11 @@ export function GameInfo({
                     ? "Road victory"
                     : winCondition === "flat"
                       ? "Flat count victory"
-                      : "Resignation"}
+                      : winCondition === "time"
+                        ? "Time forfeit"
+                        : winCondition === "agreement"
+                          ? "Agreement"
+                          : "Resignation"}
                   )
                 </span>
               )}
@@ -120,7 +253,10 @@ export function GameInfo({
       {status === "waiting" && (
         <div className="mt-4 p-3 bg-yellow-100 border border-yellow-300 rounded-md">
           <p className="text-yellow-800 text-sm">
-            🕐 Waiting for another player to join...
+            🕐{" "}
+            {challenged
+              ? `Waiting for ${challenged.displayName} to accept the challenge...`
+              : "Waiting for another player to join..."}
           </p>
         </div>
       )}
@@ -1,15 +1,25 @@
 import { useQuery, useMutation } from "convex/react";
 import { api } from "../../convex/_generated/api";
 import { Id } from "../../convex/_generated/dataModel";
+import { describeRules } from "../lib/rules";
+import { formatTimeControl } from "../lib/time";
+import { PlayerBadge } from "./PlayerBadge";
+import { ChatPanel } from "./ChatPanel";
 
 interface GameLobbyProps {
   onGameSelect: (gameId: Id<"games">) => void;
+  onProfileSelect: (userId: Id<"users">) => void;
 }
 
-export function GameLobby({ onGameSelect }: GameLobbyProps) {
+export function GameLobby({ onGameSelect, onProfileSelect }: GameLobbyProps) {
   const availableGames = useQuery(api.games.getAvailableGames);
+  const liveGames = useQuery(api.games.getLiveGames);
+  const challenges = useQuery(api.games.getChallenges);
   const userGames = useQuery(api.games.getUserGames);
+  const currentUser = useQuery(api.auth.loggedInUser);
   const joinGame = useMutation(api.games.joinGame);
+  const declineChallenge = useMutation(api.games.declineChallenge);
+  const cancelGame = useMutation(api.games.cancelGame);
 
   const handleJoinGame = async (gameId: Id<"games">) => {
     try {
@@ -21,6 +31,25 @@ export function GameLobby({ onGameSelect }: GameLobbyProps) {
     }
   };
 
+  const handleDeclineChallenge = async (gameId: Id<"games">) => {
+    try {
+      await declineChallenge({ gameId });
+    } catch (error) {
+      console.error("Failed to decline challenge:", error);
+      alert("Failed to decline challenge. Please try again.");
+    }
+  };
+
+  const handleCancelGame = async (gameId: Id<"games">) => {
+    if (!window.confirm("Cancel this game?")) return;
+    try {
+      await cancelGame({ gameId });
+    } catch (error) {
+      console.error("Failed to cancel game:", error);
+      alert("Failed to cancel game. Please try again.");
+    }
+  };
+
   const formatDate = (timestamp: number) => {
     return new Date(timestamp).toLocaleString();
   };
@@ -29,6 +58,17 @@ export function GameLobby({ onGameSelect }: GameLobbyProps) {
     return `${size}×${size}`;
   };
 
+  const getJoinerColorText = (color: "white" | "black" | "random") => {
+    switch (color) {
+      case "white":
+        return "You play ⚪ White";
+      case "black":
+        return "You play ⚫ Black";
+      default:
+        return "🎲 Random colours";
+    }
+  };
+
   const getStatusColor = (status: string) => {
     switch (status) {
       case "waiting":
@@ -50,6 +90,86 @@ export function GameLobby({ onGameSelect }: GameLobbyProps) {
 
   return (
     <div className="space-y-8">
+      {/* Challenges */}
+      {challenges && challenges.length > 0 && (
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900 mb-4">Challenges</h2>
+          <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+            {challenges.map((game) => (
+              <div
+                key={game._id}
+                className="bg-white rounded-lg shadow-sm border border-blue-200 p-4"
+              >
+                <div className="flex justify-between items-start mb-3">
+                  <div>
+                    <h3 className="font-semibold text-gray-900">
+                      {getBoardSizeName(game.boardSize)} Board
+                    </h3>
+                    <div className="mt-1 flex items-center gap-1 text-sm text-gray-600">
+                      <span>From</span>
+                      <PlayerBadge
+                        player={game.creator}
+                        onClick={onProfileSelect}
+                      />
+                    </div>
+                    <p className="text-sm text-gray-600">
+                      {getJoinerColorText(game.joinerColor)}
+                    </p>
+                    <p className="text-sm text-gray-500">
+                      Sent {formatDate(game.createdAt)}
+                    </p>
+                  </div>
+                  <div className="flex flex-col items-end space-y-1">
+                    {game.isRanked && (
+                      <span className="text-xs px-2 py-1 bg-purple-100 text-purple-700 rounded">
+                        Ranked
+                      </span>
+                    )}
+                    {game.komi && game.komi > 0 && (
+                      <span className="text-xs px-2 py-1 bg-blue-100 text-blue-700 rounded">
+                        Komi: {game.komi / 2}
+                      </span>
+                    )}
+                    {describeRules(game.rules).map(({ label, detail }) => (
+                      <span
+                        key={label}
+                        title={detail}
+                        className="text-xs px-2 py-1 bg-teal-100 text-teal-700 rounded"
+                      >
+                        {label}
+                      </span>
+                    ))}
+                    {game.timeControl && (
+                      <span className="text-xs px-2 py-1 bg-orange-100 text-orange-700 rounded">
+                        ⏱ {formatTimeControl(game.timeControl)}
+                      </span>
+                    )}
+                  </div>
+                </div>
+                <div className="flex space-x-2">
+                  <button
+                    onClick={() => {
+                      handleJoinGame(game._id).catch(console.error);
+                    }}
+                    className="flex-1 bg-blue-600 text-white py-2 px-4 rounded-md hover:bg-blue-700 transition-colors"
+                  >
+                    Accept
+                  </button>
+                  <button
+                    onClick={() => {
+                      handleDeclineChallenge(game._id).catch(console.error);
+                    }}
+                    className="flex-1 border border-gray-300 text-gray-700 py-2 px-4 rounded-md hover:bg-gray-50 transition-colors"
+                  >
+                    Decline
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Available Games */}
       <div>
         <h2 className="text-2xl font-bold text-gray-900 mb-4">
@@ -78,6 +198,15 @@ export function GameLobby({ onGameSelect }: GameLobbyProps) {
                     <h3 className="font-semibold text-gray-900">
                       {getBoardSizeName(game.boardSize)} Board
                     </h3>
+                    <div className="mt-1">
+                      <PlayerBadge
+                        player={game.creator}
+                        onClick={onProfileSelect}
+                      />
+                    </div>
+                    <p className="text-sm text-gray-600">
+                      {getJoinerColorText(game.joinerColor)}
+                    </p>
                     <p className="text-sm text-gray-500">
                       Created {formatDate(game.createdAt)}
                     </p>
@@ -93,6 +222,20 @@ export function GameLobby({ onGameSelect }: GameLobbyProps) {
                         Komi: {game.komi / 2}
                       </span>
                     )}
+                    {describeRules(game.rules).map(({ label, detail }) => (
+                      <span
+                        key={label}
+                        title={detail}
+                        className="text-xs px-2 py-1 bg-teal-100 text-teal-700 rounded"
+                      >
+                        {label}
+                      </span>
+                    ))}
+                    {game.timeControl && (
+                      <span className="text-xs px-2 py-1 bg-orange-100 text-orange-700 rounded">
+                        ⏱ {formatTimeControl(game.timeControl)}
+                      </span>
+                    )}
                   </div>
                 </div>
                 <button
@@ -109,6 +252,72 @@ export function GameLobby({ onGameSelect }: GameLobbyProps) {
         )}
       </div>
 
+      {/* Live Games */}
+      <div>
+        <h2 className="text-2xl font-bold text-gray-900 mb-4">Live Games</h2>
+        {!liveGames ? (
+          <div className="flex justify-center">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+          </div>
+        ) : liveGames.length === 0 ? (
+          <div className="text-center py-8 bg-white rounded-lg shadow-sm">
+            <p className="text-gray-500">No games in progress</p>
+          </div>
+        ) : (
+          <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+            {liveGames.map((game) => (
+              <div
+                key={game._id}
+                className="bg-white rounded-lg shadow-sm border p-4"
+              >
+                <div className="flex justify-between items-start mb-3">
+                  <div>
+                    <h3 className="font-semibold text-gray-900">
+                      {getBoardSizeName(game.boardSize)} Board
+                    </h3>
+                    <div className="mt-1 flex flex-col gap-1">
+                      <PlayerBadge
+                        player={game.white}
+                        onClick={onProfileSelect}
+                      />
+                      <PlayerBadge
+                        player={game.black}
+                        onClick={onProfileSelect}
+                      />
+                    </div>
+                    <p className="text-sm text-gray-500 mt-1">
+                      Move {game.moveCount} ·{" "}
+                      {game.currentPlayer === "white" ? "⚪" : "⚫"} to play
+                    </p>
+                  </div>
+                  <div className="flex flex-col items-end space-y-1">
+                    {game.isRanked && (
+                      <span className="text-xs px-2 py-1 bg-purple-100 text-purple-700 rounded">
+                        Ranked
+                      </span>
+                    )}
+                    {game.timeControl && (
+                      <span className="text-xs px-2 py-1 bg-orange-100 text-orange-700 rounded">
+                        ⏱ {formatTimeControl(game.timeControl)}
+                      </span>
+                    )}
+                    <span className="text-xs text-gray-500">
+                      👁 {game.viewerCount}
+                    </span>
+                  </div>
+                </div>
+                <button
+                  onClick={() => onGameSelect(game._id)}
+                  className="w-full border border-blue-600 text-blue-600 py-2 px-4 rounded-md hover:bg-blue-50 transition-colors"
+                >
+                  Watch
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
       {/* User's Games */}
       <div>
         <h2 className="text-2xl font-bold text-gray-900 mb-4">Your Games</h2>
@@ -132,6 +341,9 @@ export function GameLobby({ onGameSelect }: GameLobbyProps) {
                     <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                       Game
                     </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Players
+                    </th>
                     <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                       Status
                     </th>
@@ -166,6 +378,22 @@ export function GameLobby({ onGameSelect }: GameLobbyProps) {
                           </div>
                         </div>
                       </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <div className="flex flex-col gap-1">
+                          {game.white && (
+                            <PlayerBadge
+                              player={game.white}
+                              onClick={onProfileSelect}
+                            />
+                          )}
+                          {game.black && (
+                            <PlayerBadge
+                              player={game.black}
+                              onClick={onProfileSelect}
+                            />
+                          )}
+                        </div>
+                      </td>
                       <td className="px-6 py-4 whitespace-nowrap">
                         <span
                           className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${getStatusColor(game.status)}`}
@@ -189,6 +417,17 @@ export function GameLobby({ onGameSelect }: GameLobbyProps) {
                         >
                           {game.status === "active" ? "Continue" : "View"}
                         </button>
+                        {game.status === "waiting" &&
+                          game.creator.userId === currentUser?._id && (
+                            <button
+                              onClick={() => {
+                                handleCancelGame(game._id).catch(console.error);
+                              }}
+                              className="ml-3 text-red-600 hover:text-red-800 text-sm font-medium"
+                            >
+                              Cancel
+                            </button>
+                          )}
                       </td>
                     </tr>
                   ))}
@@ -198,6 +437,18 @@ export function GameLobby({ onGameSelect }: GameLobbyProps) {
           </div>
         )}
       </div>
+
+      {/* Lobby Chat */}
+      <div>
+        <h2 className="text-2xl font-bold text-gray-900 mb-4">Lobby Chat</h2>
+        <div className="bg-white rounded-lg shadow-sm p-4">
+          <ChatPanel
+            channels={["lobby"]}
+            writableChannels={["lobby"]}
+            currentUserId={currentUser?._id}
+          />
+        </div>
+      </div>
     </div>
   );
 }
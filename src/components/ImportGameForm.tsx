@@ -0,0 +1,117 @@
+import { useState } from "react";
+import { useMutation } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import { Id } from "../../convex/_generated/dataModel";
+
+interface ImportGameFormProps {
+  onGameImported: (gameId: Id<"games">) => void;
+  onCancel: () => void;
+}
+
+export function ImportGameForm({
+  onGameImported,
+  onCancel,
+}: ImportGameFormProps) {
+  const [ptn, setPtn] = useState("");
+  const [isImporting, setIsImporting] = useState(false);
+
+  const importGame = useMutation(api.ptn.importGame);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) {
+      setPtn(await file.text());
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsImporting(true);
+
+    try {
+      const gameId = await importGame({ ptn });
+      onGameImported(gameId);
+    } catch (error) {
+      console.error("Failed to import game:", error);
+      alert(error instanceof Error ? error.message : "Failed to import game");
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <div className="max-w-md mx-auto">
+      <div className="bg-white rounded-lg shadow-lg p-6">
+        <h2 className="text-2xl font-bold text-gray-900 mb-6">
+          Import PTN Game
+        </h2>
+
+        <form
+          onSubmit={(e) => {
+            handleSubmit(e).catch(console.error);
+          }}
+          className="space-y-6"
+        >
+          {/* PTN File */}
+          <div>
+            <label
+              htmlFor="ptnFile"
+              className="block text-sm font-medium text-gray-700 mb-2"
+            >
+              PTN File
+            </label>
+            <input
+              id="ptnFile"
+              type="file"
+              accept=".ptn,.txt"
+              onChange={(e) => {
+                handleFileChange(e).catch(console.error);
+              }}
+              className="w-full text-sm text-gray-700"
+            />
+          </div>
+
+          {/* PTN Text */}
+          <div>
+            <label
+              htmlFor="ptnText"
+              className="block text-sm font-medium text-gray-700 mb-2"
+            >
+              Or paste PTN
+            </label>
+            <textarea
+              id="ptnText"
+              value={ptn}
+              onChange={(e) => setPtn(e.target.value)}
+              rows={10}
+              placeholder={'[Size "5"]\n\n1. a1 e5\n2. c3 Sd4'}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md font-mono text-sm focus:ring-blue-500 focus:border-blue-500"
+            />
+            <p className="text-sm text-gray-500 mt-1">
+              Finished games keep their result; unfinished ones open as analysis
+              games
+            </p>
+          </div>
+
+          {/* Buttons */}
+          <div className="flex space-x-3">
+            <button
+              type="button"
+              onClick={onCancel}
+              className="flex-1 px-4 py-2 border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={isImporting || !ptn.trim()}
+              className="flex-1 bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              {isImporting ? "Importing..." : "Import Game"}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,92 @@
+import { useEffect, useRef } from "react";
+import { Id } from "../../convex/_generated/dataModel";
+
+interface MoveHistoryProps {
+  moves: { _id: Id<"moves">; notation: string }[];
+  whiteName: string;
+  blackName: string;
+  viewPly: number; // Plies played in the position on the board
+  onSelect: (ply: number) => void;
+}
+
+export function MoveHistory({
+  moves,
+  whiteName,
+  blackName,
+  viewPly,
+  onSelect,
+}: MoveHistoryProps) {
+  const selectedRef = useRef<HTMLButtonElement>(null);
+
+  // Keep the shown move in view, including new moves while watching live
+  useEffect(() => {
+    selectedRef.current?.scrollIntoView({ block: "nearest" });
+  }, [viewPly, moves.length]);
+
+  const rows = [];
+  for (let ply = 1; ply <= moves.length; ply += 2) {
+    rows.push(ply);
+  }
+
+  const renderMove = (ply: number) => {
+    const move = moves[ply - 1];
+    if (!move) return <span />;
+    const isSelected = ply === viewPly;
+    return (
+      <button
+        ref={isSelected ? selectedRef : undefined}
+        onClick={() => onSelect(ply)}
+        className={`font-mono text-left rounded px-1 ${
+          isSelected ? "bg-blue-600 text-white" : "hover:bg-blue-100"
+        }`}
+      >
+        {move.notation}
+      </button>
+    );
+  };
+
+  const controls = [
+    { label: "⏮", title: "First", ply: 0 },
+    { label: "◀", title: "Previous", ply: Math.max(0, viewPly - 1) },
+    { label: "▶", title: "Next", ply: Math.min(moves.length, viewPly + 1) },
+    { label: "⏭", title: "Last", ply: moves.length },
+  ];
+
+  return (
+    <div>
+      <h4 className="text-sm font-medium text-gray-700 mb-2">Move History</h4>
+      <div className="max-h-48 overflow-y-auto text-xs">
+        {moves.length === 0 ? (
+          <p className="text-gray-400">No moves yet</p>
+        ) : (
+          <div className="grid grid-cols-[2rem_1fr_1fr] gap-y-1">
+            <span />
+            <span className="text-gray-500 truncate">{whiteName}</span>
+            <span className="text-gray-500 truncate">{blackName}</span>
+            {rows.map((ply) => (
+              <div key={moves[ply - 1]._id} className="contents">
+                <span className="text-gray-400">{(ply + 1) / 2}.</span>
+                {renderMove(ply)}
+                {renderMove(ply + 1)}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+      <div className="flex justify-between mt-2">
+        {controls.map(({ label, title, ply }) => (
+          <button
+            key={title}
+            onClick={() => onSelect(ply)}
+            disabled={ply === viewPly}
+            title={title}
+            className="flex-1 mx-0.5 py-1 text-sm border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+      <p className="text-xs text-gray-400 mt-1">Use ← and → to step through</p>
+    </div>
+  );
+}
@@ -0,0 +1,63 @@
+import { useState } from "react";
+import { Move } from "../../convex/lib/tak";
+import { parseMove } from "../../convex/lib/ptn";
+
+interface MoveInputProps {
+  disabled: boolean;
+  onSubmit: (move: Move) => Promise<boolean>; // Resolves false if the move was refused
+}
+
+// Type a move in PTN instead of clicking it out
+export function MoveInput({ disabled, onSubmit }: MoveInputProps) {
+  const [text, setText] = useState("");
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const notation = text.trim();
+    if (!notation) return;
+
+    const move = parseMove(notation);
+    if (!move) {
+      alert(`Unrecognised PTN move "${notation}"`);
+      return;
+    }
+    if (await onSubmit(move)) {
+      setText("");
+    }
+  };
+
+  return (
+    <form
+      onSubmit={(e) => {
+        handleSubmit(e).catch(console.error);
+      }}
+      className="space-y-1"
+    >
+      <label
+        htmlFor="ptn-move"
+        className="block text-sm font-medium text-gray-700"
+      >
+        Type a Move
+      </label>
+      <div className="flex gap-2">
+        <input
+          id="ptn-move"
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          disabled={disabled}
+          placeholder="e.g. Sc3 or 3b2>111"
+          autoComplete="off"
+          spellCheck={false}
+          className="flex-1 min-w-0 px-2 py-1 text-sm font-mono border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500 disabled:bg-gray-100"
+        />
+        <button
+          type="submit"
+          disabled={disabled || !text.trim()}
+          className="px-3 py-1 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          Play
+        </button>
+      </div>
+    </form>
+  );
+}
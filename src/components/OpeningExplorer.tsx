@@ -0,0 +1,98 @@
+import { useQuery } from "convex/react";
+import { api } from "../../convex/_generated/api";
+
+interface OpeningExplorerProps {
+  boardSize: number;
+  moves: string[]; // The line leading to the position being explored
+  onPlay: (notation: string) => void;
+}
+
+function percent(count: number, total: number) {
+  return Math.round((count / total) * 100);
+}
+
+// Moves played from this position (or any rotation or reflection of it) in
+// finished games, with how those games ended
+export function OpeningExplorer({
+  boardSize,
+  moves,
+  onPlay,
+}: OpeningExplorerProps) {
+  const openingMoves = useQuery(api.openings.getOpeningMoves, {
+    boardSize,
+    moves,
+  });
+
+  return (
+    <div>
+      <h4 className="text-sm font-medium text-gray-700 mb-2">
+        Opening Explorer
+      </h4>
+      {openingMoves === undefined ? (
+        <p className="text-xs text-gray-400">Loading...</p>
+      ) : openingMoves === null ? (
+        <p className="text-xs text-gray-400">
+          The explorer only covers the first few moves of each game
+        </p>
+      ) : openingMoves.length === 0 ? (
+        <p className="text-xs text-gray-400">
+          No finished {boardSize}×{boardSize} games reached this position
+        </p>
+      ) : (
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-xs text-gray-500 text-left">
+              <th className="font-normal">Move</th>
+              <th className="font-normal text-right pr-2">Games</th>
+              <th className="font-normal">White / Draw / Black</th>
+            </tr>
+          </thead>
+          <tbody>
+            {openingMoves.map((row) => (
+              <tr key={row.move}>
+                <td>
+                  <button
+                    onClick={() => onPlay(row.move)}
+                    className="font-mono rounded px-1 hover:bg-blue-100"
+                  >
+                    {row.move}
+                  </button>
+                </td>
+                <td className="text-right pr-2 text-gray-600">{row.games}</td>
+                <td>
+                  <div
+                    className="flex h-4 rounded overflow-hidden border border-gray-300 text-[10px] leading-4"
+                    title={`White ${row.whiteWins}, draws ${row.draws}, black ${row.blackWins}`}
+                  >
+                    {[
+                      {
+                        count: row.whiteWins,
+                        className: "bg-white text-gray-700",
+                      },
+                      { count: row.draws, className: "bg-gray-300" },
+                      {
+                        count: row.blackWins,
+                        className: "bg-gray-800 text-white",
+                      },
+                    ]
+                      .filter(({ count }) => count > 0)
+                      .map(({ count, className }, i) => (
+                        <div
+                          key={i}
+                          className={`${className} text-center`}
+                          style={{ width: `${percent(count, row.games)}%` }}
+                        >
+                          {percent(count, row.games) >= 20 &&
+                            `${percent(count, row.games)}%`}
+                        </div>
+                      ))}
+                  </div>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,57 @@
+import { Id } from "../../convex/_generated/dataModel";
+
+export interface PlayerSummary {
+  userId: Id<"users">;
+  displayName: string;
+  avatarColor: string;
+}
+
+interface PlayerBadgeProps {
+  player: PlayerSummary;
+  size?: "sm" | "lg";
+  onClick?: (userId: Id<"users">) => void;
+}
+
+export function PlayerBadge({
+  player,
+  size = "sm",
+  onClick,
+}: PlayerBadgeProps) {
+  const avatar = (
+    <span
+      className={`inline-flex items-center justify-center rounded-full text-white font-semibold ${
+        size === "lg" ? "w-16 h-16 text-2xl" : "w-6 h-6 text-xs"
+      }`}
+      style={{ backgroundColor: player.avatarColor }}
+    >
+      {player.displayName.charAt(0).toUpperCase()}
+    </span>
+  );
+
+  const content = (
+    <span className="inline-flex items-center gap-2">
+      {avatar}
+      <span
+        className={
+          size === "lg"
+            ? "text-2xl font-bold text-gray-900"
+            : "text-sm text-gray-900"
+        }
+      >
+        {player.displayName}
+      </span>
+    </span>
+  );
+
+  if (!onClick) return content;
+
+  return (
+    <button
+      type="button"
+      onClick={() => onClick(player.userId)}
+      className="hover:underline"
+    >
+      {content}
+    </button>
+  );
+}
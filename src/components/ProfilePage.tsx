@@ -0,0 +1,330 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import { Id } from "../../convex/_generated/dataModel";
+import { PlayerBadge, PlayerSummary } from "./PlayerBadge";
+import { RatingPanel } from "./RatingPanel";
+
+interface ProfilePageProps {
+  userId?: Id<"users">;
+  onChallenge: (player: PlayerSummary) => void;
+}
+
+const AVATAR_COLORS = [
+  "#6b7280",
+  "#ef4444",
+  "#f97316",
+  "#eab308",
+  "#22c55e",
+  "#14b8a6",
+  "#3b82f6",
+  "#8b5cf6",
+  "#ec4899",
+];
+
+const WIN_CONDITION_NAMES: Record<string, string> = {
+  road: "Road",
+  flat: "Flat count",
+  resign: "Resignation",
+  time: "Time",
+  agreement: "Agreement",
+};
+
+export function ProfilePage({ userId, onChallenge }: ProfilePageProps) {
+  const profile = useQuery(api.profiles.getProfile, { userId });
+  const updateProfile = useMutation(api.profiles.updateProfile);
+
+  const [isEditing, setIsEditing] = useState(false);
+  const [displayName, setDisplayName] = useState("");
+  const [avatarColor, setAvatarColor] = useState(AVATAR_COLORS[0]);
+  const [country, setCountry] = useState("");
+  const [bio, setBio] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  if (profile === undefined) {
+    return (
+      <div className="flex justify-center items-center min-h-96">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  if (profile === null) {
+    return (
+      <div className="text-center py-8 bg-white rounded-lg shadow-sm">
+        <p className="text-gray-500">Profile not found</p>
+      </div>
+    );
+  }
+
+  const startEditing = () => {
+    setDisplayName(profile.displayName);
+    setAvatarColor(profile.avatarColor);
+    setCountry(profile.country ?? "");
+    setBio(profile.bio ?? "");
+    setIsEditing(true);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+
+    try {
+      await updateProfile({
+        displayName,
+        avatarColor,
+        country: country || undefined,
+        bio: bio || undefined,
+      });
+      setIsEditing(false);
+    } catch (error) {
+      console.error("Failed to save profile:", error);
+      alert(error instanceof Error ? error.message : "Failed to save profile");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const { stats } = profile;
+
+  return (
+    <div className="space-y-8">
+      {/* Profile Header */}
+      <div className="bg-white rounded-lg shadow-sm p-6">
+        {isEditing ? (
+          <form
+            onSubmit={(e) => {
+              handleSubmit(e).catch(console.error);
+            }}
+            className="space-y-4 max-w-md"
+          >
+            <div>
+              <label
+                htmlFor="displayName"
+                className="block text-sm font-medium text-gray-700 mb-2"
+              >
+                Display Name
+              </label>
+              <input
+                id="displayName"
+                value={displayName}
+                onChange={(e) => setDisplayName(e.target.value)}
+                maxLength={30}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+            <div>
+              <span className="block text-sm font-medium text-gray-700 mb-2">
+                Avatar Color
+              </span>
+              <div className="flex gap-2">
+                {AVATAR_COLORS.map((color) => (
+                  <button
+                    key={color}
+                    type="button"
+                    onClick={() => setAvatarColor(color)}
+                    className={`w-8 h-8 rounded-full border-2 ${
+                      avatarColor === color
+                        ? "border-gray-900"
+                        : "border-transparent"
+                    }`}
+                    style={{ backgroundColor: color }}
+                    aria-label={color}
+                  />
+                ))}
+              </div>
+            </div>
+            <div>
+              <label
+                htmlFor="country"
+                className="block text-sm font-medium text-gray-700 mb-2"
+              >
+                Country
+              </label>
+              <input
+                id="country"
+                value={country}
+                onChange={(e) => setCountry(e.target.value)}
+                maxLength={56}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+            <div>
+              <label
+                htmlFor="bio"
+                className="block text-sm font-medium text-gray-700 mb-2"
+              >
+                Bio
+              </label>
+              <textarea
+                id="bio"
+                value={bio}
+                onChange={(e) => setBio(e.target.value)}
+                maxLength={500}
+                rows={3}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+            <div className="flex space-x-3">
+              <button
+                type="button"
+                onClick={() => setIsEditing(false)}
+                className="flex-1 px-4 py-2 border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={isSaving}
+                className="flex-1 bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              >
+                {isSaving ? "Saving..." : "Save Profile"}
+              </button>
+            </div>
+          </form>
+        ) : (
+          <div className="flex justify-between items-start">
+            <div className="space-y-2">
+              <PlayerBadge player={profile} size="lg" />
+              {profile.country && (
+                <p className="text-sm text-gray-500">{profile.country}</p>
+              )}
+              {profile.bio && (
+                <p className="text-gray-700 whitespace-pre-line">
+                  {profile.bio}
+                </p>
+              )}
+            </div>
+            {profile.isOwnProfile ? (
+              <button
+                onClick={startEditing}
+                className="px-4 py-2 border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 transition-colors"
+              >
+                Edit Profile
+              </button>
+            ) : (
+              <button
+                onClick={() => onChallenge(profile)}
+                className="bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700 transition-colors"
+              >
+                Challenge
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+
+      {/* Results */}
+      <div>
+        <h2 className="text-2xl font-bold text-gray-900 mb-4">Results</h2>
+        <div className="grid gap-4 md:grid-cols-2">
+          <div className="bg-white rounded-lg shadow-sm p-4">
+            <h3 className="text-sm font-medium text-gray-700 mb-2">
+              By Board Size
+            </h3>
+            <ResultTable
+              rows={stats.byBoardSize.map((row) => ({
+                label: `${row.boardSize}×${row.boardSize}`,
+                ...row,
+              }))}
+              total={stats.total}
+            />
+          </div>
+          <div className="bg-white rounded-lg shadow-sm p-4">
+            <h3 className="text-sm font-medium text-gray-700 mb-2">
+              By Win Condition
+            </h3>
+            <ResultTable
+              rows={stats.byWinCondition.map((row) => ({
+                label: WIN_CONDITION_NAMES[row.winCondition] ?? "Other",
+                ...row,
+              }))}
+              total={stats.total}
+            />
+          </div>
+        </div>
+      </div>
+
+      {/* Favourite Openings */}
+      <div>
+        <h2 className="text-2xl font-bold text-gray-900 mb-4">
+          Favourite Opening Squares
+        </h2>
+        {stats.favouriteOpenings.length === 0 ? (
+          <div className="text-center py-8 bg-white rounded-lg shadow-sm">
+            <p className="text-gray-500">No games played yet</p>
+          </div>
+        ) : (
+          <div className="bg-white rounded-lg shadow-sm p-4 flex flex-wrap gap-3">
+            {stats.favouriteOpenings.map((opening) => (
+              <div
+                key={opening.square}
+                className="px-3 py-2 bg-amber-50 border border-amber-200 rounded-md"
+              >
+                <span className="font-mono font-semibold">
+                  {opening.square}
+                </span>
+                <span className="text-xs text-gray-500 ml-2">
+                  {opening.count} game{opening.count === 1 ? "" : "s"}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Ratings */}
+      <div>
+        <h2 className="text-2xl font-bold text-gray-900 mb-4">Ratings</h2>
+        <RatingPanel userId={profile.userId} />
+      </div>
+    </div>
+  );
+}
+
+interface ResultCounts {
+  wins: number;
+  losses: number;
+  draws: number;
+}
+
+function ResultTable({
+  rows,
+  total,
+}: {
+  rows: (ResultCounts & { label: string })[];
+  total: ResultCounts;
+}) {
+  if (rows.length === 0) {
+    return <p className="text-sm text-gray-500">No finished games yet</p>;
+  }
+
+  return (
+    <table className="w-full text-sm">
+      <thead>
+        <tr className="text-left text-xs text-gray-500 uppercase">
+          <th className="py-1"></th>
+          <th className="py-1">W</th>
+          <th className="py-1">L</th>
+          <th className="py-1">D</th>
+        </tr>
+      </thead>
+      <tbody className="divide-y divide-gray-100">
+        {rows.map((row) => (
+          <tr key={row.label}>
+            <td className="py-1 text-gray-700">{row.label}</td>
+            <td className="py-1 text-green-700">{row.wins}</td>
+            <td className="py-1 text-red-700">{row.losses}</td>
+            <td className="py-1 text-gray-500">{row.draws}</td>
+          </tr>
+        ))}
+        <tr className="font-semibold">
+          <td className="py-1">Total</td>
+          <td className="py-1">{total.wins}</td>
+          <td className="py-1">{total.losses}</td>
+          <td className="py-1">{total.draws}</td>
+        </tr>
+      </tbody>
+    </table>
+  );
+}
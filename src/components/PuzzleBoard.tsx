@@ -0,0 +1,417 @@
+import { useQuery, useMutation } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import { Id } from "../../convex/_generated/dataModel";
+import { useState, useEffect, useCallback, useMemo } from "react";
+import { Board3D } from "./Board3D";
+import { Board2D } from "./Board2D";
+import { GameControls } from "./GameControls";
+import { MoveInput } from "./MoveInput";
+import { StackInspector } from "./StackInspector";
+import {
+  Move,
+  PieceType,
+  applyMove,
+  createInitialState,
+  legalMoves,
+  moveToNotation,
+  touchedSquares,
+} from "../../convex/lib/tak";
+import { parseMove, replayNotation } from "../../convex/lib/ptn";
+import {
+  PartialMove,
+  addDrop,
+  completeMove,
+  dropTargets,
+  moveSquares,
+} from "../lib/stackMove";
+
+interface PuzzleBoardProps {
+  onGameSelect: (gameId: Id<"games">) => void;
+}
+
+// Solve puzzles mined from finished games, one at a time
+export function PuzzleBoard({ onGameSelect }: PuzzleBoardProps) {
+  const nextPuzzleId = useQuery(api.puzzles.getNextPuzzle);
+  const [puzzleId, setPuzzleId] = useState<Id<"puzzles"> | null>(null);
+  const puzzle = useQuery(
+    api.puzzles.getPuzzle,
+    puzzleId ? { puzzleId } : "skip"
+  );
+  const playPuzzleMove = useMutation(api.puzzles.playPuzzleMove);
+
+  // Moves played in this attempt, the defence included
+  const [played, setPlayed] = useState<string[]>([]);
+  const [outcome, setOutcome] = useState<"solved" | "failed" | null>(null);
+  const [solution, setSolution] = useState<string[] | null>(null);
+  const [selectedPieceType, setSelectedPieceType] = useState<PieceType>("flat");
+  const [isPlacingPiece, setIsPlacingPiece] = useState(true);
+  const [partialMove, setPartialMove] = useState<PartialMove | null>(null);
+  const [inspectedSquare, setInspectedSquare] = useState<{
+    row: number;
+    col: number;
+  } | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [use3D, setUse3D] = useState(false);
+
+  // Hold on to the puzzle being solved; the next one is only picked up
+  // once the player asks for it
+  useEffect(() => {
+    if (puzzleId === null && nextPuzzleId) {
+      setPuzzleId(nextPuzzleId);
+    }
+  }, [puzzleId, nextPuzzleId]);
+
+  const start = useMemo(() => {
+    if (!puzzle) return null;
+    const positions = replayNotation(
+      createInitialState(puzzle.boardSize, puzzle.komi, puzzle.rules),
+      puzzle.setup
+    );
+    return positions[positions.length - 1];
+  }, [puzzle]);
+
+  const position = useMemo(() => {
+    if (!start) return null;
+    const positions = replayNotation(start, played);
+    return positions[positions.length - 1];
+  }, [start, played]);
+
+  const solver = start?.currentPlayer;
+  const isSolving = !!position && outcome === null && !isLoading;
+
+  const lastMoveSquares = useMemo(() => {
+    const move =
+      played.length > 0 ? parseMove(played[played.length - 1]) : null;
+    return move ? touchedSquares(move) : undefined;
+  }, [played]);
+
+  const legal = useMemo(
+    () => (position && isSolving ? legalMoves(position) : []),
+    [position, isSolving]
+  );
+  const targetSquares = useMemo(
+    () => (partialMove ? dropTargets(legal, partialMove) : []),
+    [legal, partialMove]
+  );
+  const pendingMove = useMemo(
+    () => (partialMove ? completeMove(partialMove) : null),
+    [partialMove]
+  );
+  const preview = useMemo(() => {
+    if (!position || !partialMove || !pendingMove) return null;
+    const next = applyMove(position, pendingMove);
+    return next.ok
+      ? { board: next.state.board, squares: moveSquares(partialMove) }
+      : null;
+  }, [position, partialMove, pendingMove]);
+
+  // The server checks each move, answering with the defence's reply, or
+  // with the solution once the attempt is over
+  const submitMove = useCallback(
+    async (move: Move) => {
+      if (!puzzleId || !position || !isSolving) return false;
+
+      const next = applyMove(position, move);
+      if (!next.ok) {
+        alert(next.error);
+        return false;
+      }
+
+      const moves = [...played, moveToNotation(move)];
+      setIsLoading(true);
+      try {
+        const checked = await playPuzzleMove({ puzzleId, moves });
+        setPartialMove(null);
+        if (checked.reply) {
+          setPlayed([...moves, checked.reply]);
+        } else {
+          setPlayed(moves);
+          setOutcome(checked.correct ? "solved" : "failed");
+          setSolution(checked.solution ?? null);
+        }
+        return true;
+      } catch (error) {
+        console.error("Failed to check move:", error);
+        alert(error instanceof Error ? error.message : "Failed to check move");
+        return false;
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [puzzleId, position, isSolving, played, playPuzzleMove]
+  );
+
+  const handleSquareClick = useCallback(
+    async (row: number, col: number) => {
+      if (!position || !isSolving) return;
+
+      if (isPlacingPiece) {
+        await submitMove({
+          type: "place",
+          position: { row, col },
+          pieceType: selectedPieceType,
+        });
+        return;
+      }
+
+      const stack = position.board[row][col];
+      const isOwnStack = stack[stack.length - 1]?.player === solver;
+
+      if (partialMove) {
+        const isOrigin =
+          partialMove.from.row === row && partialMove.from.col === col;
+        if (isOrigin) {
+          setPartialMove(
+            partialMove.drops.length > 0
+              ? { ...partialMove, direction: null, drops: [] }
+              : null
+          );
+          return;
+        }
+
+        const next = addDrop(legal, partialMove, { row, col });
+        if (next) {
+          setPartialMove(next);
+          return;
+        }
+        if (partialMove.drops.length > 0 || !isOwnStack) {
+          alert("The stack can't drop there");
+          return;
+        }
+      }
+
+      if (!isOwnStack) {
+        alert("You don't control this stack!");
+        return;
+      }
+      setPartialMove({
+        from: { row, col },
+        carry: Math.min(stack.length, position.boardSize),
+        direction: null,
+        drops: [],
+      });
+    },
+    [
+      position,
+      isSolving,
+      isPlacingPiece,
+      selectedPieceType,
+      solver,
+      partialMove,
+      legal,
+      submitMove,
+    ]
+  );
+
+  const resetAttempt = () => {
+    setPlayed([]);
+    setOutcome(null);
+    setSolution(null);
+    setPartialMove(null);
+    setIsPlacingPiece(true);
+  };
+
+  if (nextPuzzleId === undefined || (puzzleId && puzzle === undefined)) {
+    return (
+      <div className="flex justify-center items-center min-h-96">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  if (!puzzle || !position || !solver) {
+    return (
+      <div className="text-center py-8 bg-white rounded-lg shadow-sm">
+        <p className="text-gray-500">
+          No new puzzles right now. Puzzles are made from finished games won by
+          a road, so check back after a few more games.
+        </p>
+      </div>
+    );
+  }
+
+  const boardShown = preview ? preview.board : position.board;
+  const selectedStackSize = partialMove
+    ? position.board[partialMove.from.row][partialMove.from.col].length
+    : 0;
+  const solveRate =
+    puzzle.attempts > 0
+      ? Math.round((puzzle.solves / puzzle.attempts) * 100)
+      : null;
+
+  return (
+    <div className="max-w-7xl mx-auto">
+      <div className="flex justify-between items-center mb-6">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900">Puzzle</h2>
+          <p className="text-sm text-gray-600">
+            <span className="capitalize">{solver}</span> to play and make a road
+            in {puzzle.depth} move{puzzle.depth > 1 ? "s" : ""} ·{" "}
+            {puzzle.boardSize}×{puzzle.boardSize} · Rating{" "}
+            {Math.round(puzzle.rating)}
+            {solveRate !== null && ` · ${solveRate}% solved`}
+          </p>
+        </div>
+        <button
+          onClick={() => onGameSelect(puzzle.gameId)}
+          className="text-blue-600 hover:text-blue-800"
+        >
+          View Original Game
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+        {/* Board */}
+        <div className="lg:col-span-3">
+          <div className="bg-white rounded-lg shadow-lg p-6">
+            <div className="flex justify-between items-center mb-4">
+              <h3 className="text-lg font-medium text-gray-900">
+                {played.length === 0
+                  ? "Find the forced road"
+                  : `Played ${played.join(" ")}`}
+              </h3>
+              <div className="flex items-center space-x-2">
+                <span className="text-sm text-gray-600">2D</span>
+                <label className="relative inline-flex items-center cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={use3D}
+                    onChange={(e) => setUse3D(e.target.checked)}
+                    className="sr-only peer"
+                  />
+                  <div className="w-11 h-6 bg-gray-200 peer-focus:outline-none peer-focus:ring-4 peer-focus:ring-blue-300 rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-blue-600"></div>
+                </label>
+                <span className="text-sm text-gray-600">3D</span>
+              </div>
+            </div>
+
+            <div className="aspect-square">
+              {use3D ? (
+                <Board3D
+                  boardSize={puzzle.boardSize}
+                  board={boardShown}
+                  onSquareClick={(row, col) => {
+                    void handleSquareClick(row, col);
+                  }}
+                  onSquareInspect={setInspectedSquare}
+                  selectedStack={partialMove?.from}
+                  targetSquares={targetSquares}
+                  ghostSquares={preview?.squares}
+                  lastMoveSquares={lastMoveSquares}
+                  isMyTurn={isSolving}
+                  isLoading={isLoading}
+                  readOnly={outcome !== null}
+                />
+              ) : (
+                <Board2D
+                  boardSize={puzzle.boardSize}
+                  board={boardShown}
+                  onSquareClick={(row, col) => {
+                    void handleSquareClick(row, col);
+                  }}
+                  onSquareInspect={setInspectedSquare}
+                  selectedStack={partialMove?.from}
+                  targetSquares={targetSquares}
+                  ghostSquares={preview?.squares}
+                  lastMoveSquares={lastMoveSquares}
+                  isMyTurn={isSolving}
+                  isLoading={isLoading}
+                  readOnly={outcome !== null}
+                />
+              )}
+            </div>
+
+            <div className="mt-4 p-3 border border-gray-200 rounded-md">
+              <StackInspector board={position.board} square={inspectedSquare} />
+            </div>
+          </div>
+        </div>
+
+        {/* Controls */}
+        <div className="lg:col-span-1">
+          <div className="bg-white rounded-lg shadow-lg p-4 space-y-4">
+            {outcome === "solved" && (
+              <div className="p-3 bg-green-100 border border-green-300 rounded-md">
+                <p className="text-green-800 font-medium">
+                  Solved! The road is complete.
+                </p>
+              </div>
+            )}
+            {outcome === "failed" && (
+              <div className="p-3 bg-red-50 border border-red-200 rounded-md">
+                <p className="text-red-800 font-medium">Not quite.</p>
+                {solution && (
+                  <p className="text-sm text-red-700 mt-1">
+                    The solution was{" "}
+                    <span className="font-mono">{solution.join(" ")}</span>
+                  </p>
+                )}
+              </div>
+            )}
+
+            {outcome === null ? (
+              <>
+                <MoveInput disabled={!isSolving} onSubmit={submitMove} />
+                <GameControls
+                  isMyTurn={isSolving}
+                  isLoading={isLoading}
+                  isPlacingPiece={isPlacingPiece}
+                  onModeChange={(isPlacing) => {
+                    setIsPlacingPiece(isPlacing);
+                    setPartialMove(null);
+                  }}
+                  selectedPieceType={selectedPieceType}
+                  onPieceTypeChange={setSelectedPieceType}
+                  allowWalls={!puzzle.rules?.noWalls}
+                  selectedStackSize={selectedStackSize}
+                  carry={partialMove?.carry ?? 0}
+                  onCarryChange={(carry) =>
+                    setPartialMove(
+                      (current) =>
+                        current && {
+                          ...current,
+                          carry,
+                          direction: null,
+                          drops: [],
+                        }
+                    )
+                  }
+                  drops={partialMove?.drops ?? []}
+                  canConfirm={!!preview && !isLoading}
+                  onConfirm={() => {
+                    if (pendingMove) void submitMove(pendingMove);
+                  }}
+                  onCancel={() => setPartialMove(null)}
+                  maxStackSize={puzzle.boardSize}
+                />
+              </>
+            ) : (
+              <div className="space-y-2">
+                <button
+                  onClick={resetAttempt}
+                  className="w-full border border-gray-300 text-gray-700 py-2 px-4 rounded-md hover:bg-gray-50 transition-colors"
+                >
+                  Try Again
+                </button>
+                <button
+                  onClick={() => {
+                    resetAttempt();
+                    setPuzzleId(null);
+                  }}
+                  disabled={!nextPuzzleId || nextPuzzleId === puzzleId}
+                  className="w-full bg-blue-600 text-white py-2 px-4 rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                >
+                  Next Puzzle
+                </button>
+              </div>
+            )}
+
+            <p className="text-xs text-gray-500">
+              Only your first try at a puzzle counts towards its rating
+            </p>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
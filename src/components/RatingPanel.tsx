@@ -0,0 +1,107 @@
+import { useState } from "react";
+import { useQuery } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import { Id } from "../../convex/_generated/dataModel";
+
+interface RatingPanelProps {
+  userId?: Id<"users">;
+}
+
+const GRAPH_WIDTH = 300;
+const GRAPH_HEIGHT = 100;
+
+export function RatingPanel({ userId }: RatingPanelProps) {
+  const ratings = useQuery(api.ratings.getUserRatings, { userId });
+  const [selectedSize, setSelectedSize] = useState<number | null>(null);
+
+  const boardSize = selectedSize ?? ratings?.[0]?.boardSize ?? null;
+  const history = useQuery(
+    api.ratings.getRatingHistory,
+    boardSize !== null ? { userId, boardSize } : "skip"
+  );
+
+  if (!ratings) {
+    return (
+      <div className="flex justify-center">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  if (ratings.length === 0) {
+    return (
+      <div className="text-center py-8 bg-white rounded-lg shadow-sm">
+        <p className="text-gray-500">No ranked games yet</p>
+        <p className="text-sm text-gray-400 mt-1">
+          Play a ranked game to get a rating
+        </p>
+      </div>
+    );
+  }
+
+  // Scale the rating history into the graph's box
+  const getPoints = () => {
+    if (!history || history.length < 2) return "";
+    const values = history.map((entry) => entry.rating);
+    const min = Math.min(...values);
+    const range = Math.max(Math.max(...values) - min, 1);
+    return history
+      .map((entry, index) => {
+        const x = (index / (history.length - 1)) * GRAPH_WIDTH;
+        const y = GRAPH_HEIGHT - ((entry.rating - min) / range) * GRAPH_HEIGHT;
+        return `${x.toFixed(1)},${y.toFixed(1)}`;
+      })
+      .join(" ");
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm p-4 space-y-4">
+      <div className="flex flex-wrap gap-2">
+        {ratings.map((rating) => (
+          <button
+            key={rating.boardSize}
+            onClick={() => setSelectedSize(rating.boardSize)}
+            className={`px-3 py-2 rounded-md border text-left transition-colors ${
+              rating.boardSize === boardSize
+                ? "border-blue-500 bg-blue-50"
+                : "border-gray-200 hover:bg-gray-50"
+            }`}
+          >
+            <div className="text-xs text-gray-500">
+              {rating.boardSize}×{rating.boardSize}
+            </div>
+            <div className="font-semibold text-gray-900">
+              {Math.round(rating.rating)}
+              <span className="text-xs text-gray-400 ml-1">
+                ±{Math.round(rating.deviation * 2)}
+              </span>
+            </div>
+            <div className="text-xs text-gray-500">
+              {rating.gamesPlayed} game{rating.gamesPlayed === 1 ? "" : "s"}
+            </div>
+          </button>
+        ))}
+      </div>
+
+      {history && history.length >= 2 ? (
+        <svg
+          viewBox={`0 0 ${GRAPH_WIDTH} ${GRAPH_HEIGHT}`}
+          className="w-full h-32"
+          preserveAspectRatio="none"
+        >
+          <polyline
+            points={getPoints()}
+            fill="none"
+            stroke="#2563eb"
+            strokeWidth="2"
+            vectorEffect="non-scaling-stroke"
+          />
+        </svg>
+      ) : (
+        <p className="text-sm text-gray-500">
+          Play more ranked games on this board size to see your rating graph
+        </p>
+      )}
+    </div>
+  );
+}
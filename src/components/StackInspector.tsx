@@ -0,0 +1,117 @@
+import { Board, Piece, Player, squareName } from "../../convex/lib/tak";
+
+interface StackInspectorProps {
+  board: Board;
+  square: { row: number; col: number } | null;
+}
+
+const PIECE_LETTERS = { flat: "F", wall: "S", capstone: "C" };
+
+function PieceChip({ piece, isTop }: { piece: Piece; isTop?: boolean }) {
+  return (
+    <span
+      className={`inline-flex items-center justify-center w-6 h-6 text-xs font-bold rounded border ${
+        piece.player === "white"
+          ? "bg-white text-gray-800 border-gray-400"
+          : "bg-gray-800 text-white border-gray-800"
+      } ${piece.type === "capstone" ? "rounded-full" : ""} ${
+        isTop ? "ring-2 ring-blue-400" : ""
+      }`}
+      title={`${piece.player} ${piece.type}`}
+    >
+      {PIECE_LETTERS[piece.type]}
+    </span>
+  );
+}
+
+// Full contents of one stack: who holds what, and what each carry takes
+export function StackInspector({ board, square }: StackInspectorProps) {
+  if (!square) {
+    return (
+      <p className="text-xs text-gray-500">
+        Hover over a square, or long-press it on a touch screen, to see the
+        whole stack
+      </p>
+    );
+  }
+
+  const stack = board[square.row][square.col];
+  const name = squareName(square);
+  if (stack.length === 0) {
+    return <p className="text-sm text-gray-600">{name} is empty</p>;
+  }
+
+  const top = stack[stack.length - 1];
+  const maxCarry = Math.min(stack.length, board.length);
+  const countFor = (player: Player) =>
+    stack.filter((piece) => piece.player === player).length;
+
+  return (
+    <div className="space-y-3 text-sm">
+      <div className="flex justify-between items-center">
+        <h4 className="font-medium text-gray-700">
+          Stack on {name} ({stack.length})
+        </h4>
+        <span className="text-xs text-gray-500">
+          Controlled by {top.player}
+        </span>
+      </div>
+
+      <div>
+        <p className="text-xs text-gray-500 mb-1">Bottom to top</p>
+        <div className="flex flex-wrap gap-1">
+          {stack.map((piece, index) => (
+            <PieceChip
+              key={index}
+              piece={piece}
+              isTop={index === stack.length - 1}
+            />
+          ))}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2 text-xs">
+        {(["white", "black"] as const).map((player) => {
+          const count = countFor(player);
+          // The controller's buried pieces are reserves; the other side's are captives
+          const detail =
+            player === top.player
+              ? `${count - 1} in reserve`
+              : `${count} held captive`;
+          return (
+            <div key={player} className="p-2 bg-gray-50 rounded">
+              <span className="font-medium capitalize">{player}</span>: {count}{" "}
+              {count === 1 ? "piece" : "pieces"}
+              {count > 0 && <div className="text-gray-500">{detail}</div>}
+            </div>
+          );
+        })}
+      </div>
+
+      <div>
+        <p className="text-xs text-gray-500 mb-1">Pieces moved by each carry</p>
+        <ul className="space-y-1">
+          {Array.from({ length: maxCarry }, (_, i) => i + 1).map((carry) => {
+            const left = stack.slice(0, stack.length - carry);
+            const newTop = left[left.length - 1];
+            return (
+              <li key={carry} className="flex items-center gap-2 text-xs">
+                <span className="w-12 text-gray-600">Carry {carry}</span>
+                <span className="flex gap-0.5">
+                  {stack.slice(-carry).map((piece, index) => (
+                    <PieceChip key={index} piece={piece} />
+                  ))}
+                </span>
+                <span className="text-gray-500">
+                  {newTop
+                    ? `leaves ${newTop.player} on top`
+                    : "empties the square"}
+                </span>
+              </li>
+            );
+          })}
+        </ul>
+      </div>
+    </div>
+  );
+}
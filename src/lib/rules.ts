@@ -0,0 +1,44 @@
+import { RuleVariants } from "../../convex/lib/tak";
+
+export interface RuleLabel {
+  label: string;
+  detail: string;
+}
+
+// Short labels for a game's rule variants, with a line explaining each
+export function describeRules(rules: RuleVariants | undefined): RuleLabel[] {
+  if (!rules) return [];
+
+  const labels: RuleLabel[] = [];
+  if (rules.flats !== undefined) {
+    labels.push({
+      label: `${rules.flats} flats`,
+      detail: `Each player has ${rules.flats} flat stones`,
+    });
+  }
+  if (rules.capstones !== undefined) {
+    labels.push({
+      label: `${rules.capstones} cap${rules.capstones === 1 ? "" : "s"}`,
+      detail: `Each player has ${rules.capstones} capstone${rules.capstones === 1 ? "" : "s"}`,
+    });
+  }
+  if (rules.noWalls) {
+    labels.push({
+      label: "No walls",
+      detail: "Standing stones may not be placed",
+    });
+  }
+  if (rules.dragon) {
+    labels.push({
+      label: "Dragon",
+      detail: "Capstones cannot flatten walls",
+    });
+  }
+  if (rules.noSwap) {
+    labels.push({
+      label: "No swap",
+      detail: "Players place their own stone on the first turn",
+    });
+  }
+  return labels;
+}
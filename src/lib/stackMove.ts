@@ -0,0 +1,136 @@
+import { Move, Position } from "../../convex/lib/tak";
+
+type StackMove = Extract<Move, { type: "move" }>;
+
+// A stack move being built one click at a time
+export interface PartialMove {
+  from: Position;
+  carry: number; // Pieces picked up
+  direction: Position | null; // One step along the move, set by the first drop
+  drops: number[]; // Pieces dropped on each square so far
+}
+
+function directionOf(move: StackMove): Position {
+  return {
+    row: Math.sign(move.to.row - move.from.row),
+    col: Math.sign(move.to.col - move.from.col),
+  };
+}
+
+function step(from: Position, direction: Position, count: number): Position {
+  return {
+    row: from.row + direction.row * count,
+    col: from.col + direction.col * count,
+  };
+}
+
+// Legal stack moves that agree with the drops made so far. The last drop
+// may still grow, so only a lower bound applies to it.
+function matchingMoves(legal: Move[], partial: PartialMove): StackMove[] {
+  const last = partial.drops.length - 1;
+  return legal.filter((move): move is StackMove => {
+    if (move.type !== "move") return false;
+    if (
+      move.from.row !== partial.from.row ||
+      move.from.col !== partial.from.col ||
+      move.stackSize !== partial.carry
+    ) {
+      return false;
+    }
+    if (partial.direction) {
+      const direction = directionOf(move);
+      if (
+        direction.row !== partial.direction.row ||
+        direction.col !== partial.direction.col
+      ) {
+        return false;
+      }
+    }
+    return partial.drops.every((count, index) =>
+      index < last
+        ? move.dropPattern[index] === count
+        : move.dropPattern[index] >= count
+    );
+  });
+}
+
+// Squares the next click may drop on: the current square while it can take
+// more pieces, and every square further along that a legal move reaches
+export function dropTargets(legal: Move[], partial: PartialMove): Position[] {
+  const targets = new Map<string, Position>();
+  const last = partial.drops.length - 1;
+
+  for (const move of matchingMoves(legal, partial)) {
+    const direction = directionOf(move);
+    if (last >= 0 && move.dropPattern[last] > partial.drops[last]) {
+      const square = step(move.from, direction, last + 1);
+      targets.set(`${square.row},${square.col}`, square);
+    }
+    if (last < 0 || move.dropPattern[last] === partial.drops[last]) {
+      for (let i = last + 2; i <= move.dropPattern.length; i++) {
+        const square = step(move.from, direction, i);
+        targets.set(`${square.row},${square.col}`, square);
+      }
+    }
+  }
+
+  return [...targets.values()];
+}
+
+// Drop on a clicked square: one more piece on the current square, or one on
+// each square up to a further one. Null when no legal move allows it.
+export function addDrop(
+  legal: Move[],
+  partial: PartialMove,
+  target: Position
+): PartialMove | null {
+  const rowOffset = target.row - partial.from.row;
+  const colOffset = target.col - partial.from.col;
+  if ((rowOffset !== 0) === (colOffset !== 0)) return null;
+
+  const direction = { row: Math.sign(rowOffset), col: Math.sign(colOffset) };
+  if (
+    partial.direction &&
+    (direction.row !== partial.direction.row ||
+      direction.col !== partial.direction.col)
+  ) {
+    return null;
+  }
+
+  const distance = Math.abs(rowOffset + colOffset);
+  const drops = [...partial.drops];
+  if (distance === drops.length) {
+    drops[distance - 1]++;
+  } else if (distance > drops.length) {
+    while (drops.length < distance) drops.push(1);
+  } else {
+    return null;
+  }
+
+  const next = { ...partial, direction, drops };
+  return matchingMoves(legal, next).length > 0 ? next : null;
+}
+
+// The move made by leaving every piece still carried on the last square
+export function completeMove(partial: PartialMove): StackMove | null {
+  if (!partial.direction || partial.drops.length === 0) return null;
+
+  const dropped = partial.drops.reduce((sum, count) => sum + count, 0);
+  const dropPattern = [...partial.drops];
+  dropPattern[dropPattern.length - 1] += partial.carry - dropped;
+  return {
+    type: "move",
+    from: partial.from,
+    to: step(partial.from, partial.direction, dropPattern.length),
+    stackSize: partial.carry,
+    dropPattern,
+  };
+}
+
+// Origin and every square a partial move has dropped on
+export function moveSquares(partial: PartialMove): Position[] {
+  if (!partial.direction) return [partial.from];
+  return Array.from({ length: partial.drops.length + 1 }, (_, i) =>
+    step(partial.from, partial.direction!, i)
+  );
+}
@@ -0,0 +1,34 @@
+export interface TimeControl {
+  initialTime: number;
+  increment: number;
+  correspondenceDays?: number;
+}
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// Clock display, e.g. "4:05", "1:02:30" or "2d 3h"
+export function formatClock(ms: number): string {
+  const clamped = Math.max(ms, 0);
+  if (clamped >= DAY) {
+    const days = Math.floor(clamped / DAY);
+    const hours = Math.floor((clamped % DAY) / 3_600_000);
+    return `${days}d ${hours}h`;
+  }
+
+  const totalSeconds = Math.ceil(clamped / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = String(totalSeconds % 60).padStart(2, "0");
+  return hours > 0
+    ? `${hours}:${String(minutes).padStart(2, "0")}:${seconds}`
+    : `${minutes}:${seconds}`;
+}
+
+// Short time control label, e.g. "15+10" or "3 days/move"
+export function formatTimeControl(timeControl: TimeControl): string {
+  if (timeControl.correspondenceDays) {
+    const days = timeControl.correspondenceDays;
+    return `${days} day${days > 1 ? "s" : ""}/move`;
+  }
+  return `${timeControl.initialTime / 60_000}+${timeControl.increment / 1000}`;
+}